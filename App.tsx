@@ -1,26 +1,87 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { DIFFICULTIES, DIFFICULTY_PRESETS, PLAY_MODES, TIMED_MODE_MINUTES } from './constants';
 import { 
-  GRID_SIZE, 
-  SAMPLE_VERSES 
-} from './constants';
-import { 
+  Achievement, 
   GameState, 
   Piece, 
   Point, 
   ScoreEffect,
-  Language
+  Language,
+  GameMode,
+  PlayMode,
+  Difficulty,
+  ReplayAction
 } from './types';
+import { createEmptyGrid } from './services/gameLogic';
+import { 
+  applyMove, 
+  createInitialState, 
+  startNextVerse, 
+  undoMove, 
+  canUndo, 
+  rotateTrayPiece, 
+  getVerseTokens, 
+  getRequiredTokenCount, 
+  reshuffleVerse,
+  EngineState,
+  GameEvent,
+  RESHUFFLE_PENALTY
+} from './services/engine';
+import { MoveEvaluation, canTakeHint, takeHint } from './services/hints';
+import { TOKEN_UNITS, maskToken } from './services/tokenizer';
+import { createRng, randomSeed } from './services/random';
+import { 
+  MEMORIZATION_STYLES, 
+  MemorizationChallenge, 
+  MemorizationResult, 
+  MemorizationStyle, 
+  createChallenge 
+} from './services/memorization';
+import { 
+  COMPLETION_QUALITY, 
+  ReviewQuality, 
+  pickScheduledVerse, 
+  qualityFromAccuracy 
+} from './services/scheduler';
+import { getDateKey, dailySeed, dailyVerseIndex } from './services/daily';
 import { 
-  createEmptyGrid, 
-  getRandomPiece, 
-  rotatePiece, 
-  checkCollision, 
-  distributeVerse, 
-  canPlaceAnywhere 
-} from './services/gameLogic';
-import { loadGameData, saveGameData, saveSession, loadSession, clearSession } from './services/storage';
+  loadGameData, 
+  saveGameData, 
+  loadSessionData, 
+  clearSession, 
+  isDailyLocked, 
+  recordDailyStart, 
+  recordDailyResult, 
+  getDailyStreak, 
+  recordVerseCompletion, 
+  recordMemorizationResult, 
+  recordReview, 
+  recordHighScore, 
+  recordGameStats, 
+  recordAchievements, 
+  loadProfiles, 
+  getActiveProfile, 
+  switchProfile 
+} from './services/storage';
 import { getTranslation } from './services/i18n';
+import { getVerseLanguage, getVerseText } from './services/verses';
+import { DEFAULT_PACK_ID, getAllPacks, getPackVerses, importVersePack, installedPackId } from './services/versePacks';
+import { createReplay, recordAction, saveReplay } from './services/replay';
+import { POWER_UP_ICONS, beginFrame, drawBoard, getScaleInfo, getTrayCellSize, getTrayPiecePos } from './services/renderer';
+import VerseCollection from './components/VerseCollection';
+import MemorizationPanel from './components/MemorizationPanel';
+import ReplayScreen from './components/ReplayScreen';
+import RoundSummary from './components/RoundSummary';
+import ProfilesScreen from './components/ProfilesScreen';
+import ProfileAvatar from './components/ProfileAvatar';
+import StatsScreen from './components/StatsScreen';
+import BadgesScreen from './components/BadgesScreen';
+import { addPlayTime, emptyStats, recordEvents } from './services/stats';
+import { emptyTally } from './services/scoring';
+import { RestoredSession, loadSession, saveSession } from './services/session';
+import { exportBackup, importBackup } from './services/backup';
+import { findNewAchievements } from './services/achievements';
 
 const RotateIcon = () => (
   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
@@ -31,16 +92,39 @@ const PlaceIcon = () => (
 const MenuIcon = () => (
   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 6h16M4 12h16m-7 6h7" /></svg>
 );
+const UndoIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M3 10h10a5 5 0 015 5v2M3 10l5-5m-5 5l5 5" /></svg>
+);
+const HintIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>
+);
 const PlayIcon = () => (
   <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
 );
 
-// Unified Logical Dimensions
-const LOGICAL_W = 10;
-const LOGICAL_BOARD_H = 10;
-const TRAY_GAP = 0.5;
-const LOGICAL_TRAY_H = 2.5;
-const TOTAL_LOGICAL_H = LOGICAL_BOARD_H + TRAY_GAP + LOGICAL_TRAY_H;
+/** Undo allowances the menu cycles through: casual (a few per verse), unlimited, off. */
+const UNDO_LIMIT_OPTIONS: (number | null)[] = [3, null, 0];
+
+/** How long each unlocked badge is announced. */
+const ACHIEVEMENT_TOAST_MS = 3000;
+
+/** Minutes and seconds left, rounded up so the clock reads 0:00 only at the end. */
+const formatClock = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/** Record shown during a run; the daily challenge is measured against classic. */
+const storedHighScore = (mode: GameMode, difficulty: Difficulty): number =>
+  loadGameData().highScores[mode === 'daily' ? 'classic' : mode][difficulty];
+
+/** Appends an input to the run's move log. */
+const withAction = <S extends GameState>(state: S, action: ReplayAction): S =>
+  state.replay ? { ...state, replay: recordAction(state.replay, action) } : state;
+
+/** Next verse from the spaced-repetition queue of the given pack. */
+const nextScheduledVerse = (packId: string, excludeIndex: number | null): number =>
+  pickScheduledVerse(getPackVerses(packId), loadGameData().reviewSchedule, new Date(), createRng(randomSeed()), excludeIndex);
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState | null>(null);
@@ -50,27 +134,63 @@ const App: React.FC = () => {
   const [dragOffset, setDragOffset] = useState<Point>({ x: 0, y: 0 });
   const scoreEffectsRef = useRef<ScoreEffect[]>([]);
   const requestRef = useRef<number>(0);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const [packError, setPackError] = useState<string | null>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [backupNotice, setBackupNotice] = useState<{ ok: boolean; text: string } | null>(null);
+  const [selectedPackId, setSelectedPackId] = useState<string>(() => installedPackId(loadGameData().selectedPackId));
+  const [memorizationStyle, setMemorizationStyle] = useState<MemorizationStyle>(() => loadGameData().memorizationStyle);
+  const [memorization, setMemorization] = useState<MemorizationChallenge | null>(null);
+  const [undoLimit, setUndoLimit] = useState<number | null>(() => loadGameData().undoLimit);
+  const [difficulty, setDifficulty] = useState<Difficulty>(() => loadGameData().difficulty);
+  const [playMode, setPlayMode] = useState<PlayMode>(() => loadGameData().mode);
+  const [hint, setHint] = useState<MoveEvaluation | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [achievementToasts, setAchievementToasts] = useState<Achievement[]>([]);
 
   useEffect(() => {
     try {
-      const session = loadSession();
-      if (session) setHasSession(true);
+      if (loadSessionData() !== null) setHasSession(true);
       const saved = loadGameData();
+      const preset = DIFFICULTY_PRESETS[saved.difficulty];
       setGameState({
         screen: 'menu',
         score: 0,
-        highScore: saved.highScore || 0,
+        highScore: saved.highScores[saved.mode][saved.difficulty],
         combo: 0,
-        completedVerses: saved.completedVerses || [],
+        completedVerses: saved.completedVerses || {},
+        packId: DEFAULT_PACK_ID,
         currentVerseIndex: 0,
-        grid: createEmptyGrid(),
-        trayPieces: [null, null, null],
+        versePage: 0,
+        grid: createEmptyGrid(preset.boardSize),
+        trayPieces: Array(preset.traySize).fill(null),
         activePieceIndex: null,
         currentPiecePos: { x: 0, y: 0 },
         isGameOver: false,
         collectedIndices: new Set<number>(),
         isRoundClearing: false,
-        language: (localStorage.getItem('lang') as Language) || 'zh'
+        isVerseBlocked: false,
+        language: saved.language,
+        mode: saved.mode,
+        timeLeftMs: null,
+        dailyDate: null,
+        history: [],
+        replay: null,
+        undoLimit: saved.undoLimit,
+        undosUsed: 0,
+        hintLimit: preset.hintLimit,
+        hintsUsed: 0,
+        difficulty: saved.difficulty,
+        boardSize: preset.boardSize,
+        traySize: preset.traySize,
+        pendingPowerUps: [],
+        orderStreak: 0,
+        litIndex: null,
+        verseTally: emptyTally(),
+        stats: emptyStats(),
+        pieceBag: [],
+        seed: 0,
+        rngState: 0
       });
     } catch (e) {
       console.error("Initialization failed", e);
@@ -79,263 +199,315 @@ const App: React.FC = () => {
 
   const t = getTranslation(gameState?.language || 'zh');
 
-  const getTrayPiecePos = useCallback((index: number, piece: Piece): Point => {
-    const sectionWidth = LOGICAL_W / 3;
-    return {
-      x: (index * sectionWidth) + (sectionWidth - piece.shape[0].length) / 2,
-      y: LOGICAL_BOARD_H + TRAY_GAP + (LOGICAL_TRAY_H - piece.shape.length) / 2
-    };
-  }, []);
-
-  const getScaleInfo = useCallback(() => {
-    if (!canvasRef.current) return { scale: 1, offsetX: 0, offsetY: 0 };
-    const rect = canvasRef.current.getBoundingClientRect();
-    const scale = Math.min(rect.width / LOGICAL_W, rect.height / TOTAL_LOGICAL_H);
-    const offsetX = (rect.width - (LOGICAL_W * scale)) / 2;
-    const offsetY = (rect.height - (TOTAL_LOGICAL_H * scale)) / 2;
-    return { scale, offsetX, offsetY };
-  }, []);
-
-  const startNewGame = useCallback(() => {
-    const saved = loadGameData();
-    const verseIdx = Math.floor(Math.random() * SAMPLE_VERSES.length);
-    const verse = SAMPLE_VERSES[verseIdx];
-    const grid = createEmptyGrid();
-    distributeVerse(grid, verse.text);
-    const tray = [getRandomPiece(), getRandomPiece(), getRandomPiece()];
-
+  const beginRun = useCallback((round: EngineState, dailyDate: string | null) => {
     setGameState(prev => {
       if (!prev) return null;
       const newState: GameState = {
         ...prev,
+        ...round,
+        replay: createReplay(round),
         screen: 'playing',
-        score: 0,
-        highScore: saved.highScore,
-        combo: 0,
-        currentVerseIndex: verseIdx,
-        grid: grid,
-        trayPieces: tray,
+        timeLeftMs: round.mode === 'timed' ? TIMED_MODE_MINUTES * 60_000 : null,
+        dailyDate,
+        stats: emptyStats(),
+        highScore: storedHighScore(round.mode, round.difficulty),
         activePieceIndex: null,
         currentPiecePos: { x: 0, y: 0 },
-        isGameOver: false,
-        collectedIndices: new Set<number>(),
-        isRoundClearing: false,
       };
       saveSession(newState);
       return newState;
     });
     setHasSession(true);
+    setSessionError(null);
+    setHint(null);
     scoreEffectsRef.current = [];
   }, []);
 
-  const advanceToNextVerse = () => {
+  const startNewGame = useCallback(() => {
+    beginRun(createInitialState(randomSeed(), {
+      language: gameState?.language || 'zh',
+      packId: selectedPackId,
+      verseIndex: nextScheduledVerse(selectedPackId, null),
+      undoLimit,
+      difficulty,
+      mode: playMode,
+    }), null);
+  }, [beginRun, gameState?.language, selectedPackId, undoLimit, difficulty, playMode]);
+
+  const startDailyChallenge = useCallback(() => {
+    const dateKey = getDateKey(new Date());
+    if (isDailyLocked(dateKey)) return;
+    recordDailyStart(dateKey);
+    // Everyone plays the daily verse from the classic pack at normal difficulty, whatever they picked
+    beginRun(createInitialState(dailySeed(dateKey), {
+      language: gameState?.language || 'zh',
+      packId: DEFAULT_PACK_ID,
+      verseIndex: dailyVerseIndex(dateKey),
+      undoLimit,
+      mode: 'daily',
+    }), dateKey);
+  }, [beginRun, gameState?.language, undoLimit]);
+
+  /** Unlocks whatever the move's events or the saved progress now earn, and queues a toast for each. */
+  const checkAchievements = (events: GameEvent[]) => {
+    const unlocked = findNewAchievements({ events, data: loadGameData() });
+    if (unlocked.length === 0) return;
+    recordAchievements(unlocked.map(a => a.id));
+    setAchievementToasts(prev => [...prev, ...unlocked]);
+  };
+
+  useEffect(() => {
+    if (achievementToasts.length === 0) return;
+    const id = window.setTimeout(() => setAchievementToasts(prev => prev.slice(1)), ACHIEVEMENT_TOAST_MS);
+    return () => window.clearTimeout(id);
+  }, [achievementToasts]);
+
+  const finishRun = (state: GameState) => {
+    if (state.replay && state.replay.actions.length > 0) saveReplay({ ...state.replay, finalScore: state.score });
+    recordGameStats(state.stats);
+    let finalHighScore = state.highScore;
+    if (state.mode === 'daily') {
+      if (state.dailyDate) recordDailyResult(state.dailyDate, state.score);
+      checkAchievements([]);
+    } else {
+      finalHighScore = recordHighScore(state.mode, state.difficulty, state.score);
+    }
+    setGameState({ ...state, highScore: finalHighScore, isGameOver: true });
+    clearSession();
+    setHasSession(false);
+  };
+
+  /** `quality` grades the verse for review scheduling; null leaves its card as it was. */
+  const advanceToNextVerse = (bonus = 0, quality: ReviewQuality | null = COMPLETION_QUALITY) => {
     if (!gameState || !gameState.isRoundClearing) return;
+    if (quality !== null) recordReview(getPackVerses(gameState.packId)[gameState.currentVerseIndex].reference, quality);
+    if (gameState.mode === 'daily') {
+      // The daily challenge is a single fixed verse; clearing it ends the run
+      finishRun({ ...gameState, score: gameState.score + bonus });
+      return;
+    }
     setGameState(prev => {
       if (!prev) return null;
-      const verseIdx = Math.floor(Math.random() * SAMPLE_VERSES.length);
-      const verse = SAMPLE_VERSES[verseIdx];
-      const updatedGrid = prev.grid.map(row => row.map(cell => ({ ...cell })));
-      distributeVerse(updatedGrid, verse.text);
-      const s: GameState = { 
-        ...prev, 
-        currentVerseIndex: verseIdx, 
-        grid: updatedGrid, 
-        collectedIndices: new Set<number>(), 
-        isRoundClearing: false 
-      };
+      const verseIdx = nextScheduledVerse(prev.packId, prev.currentVerseIndex);
+      const s = startNextVerse({ ...withAction(prev, ['n', verseIdx, bonus]), score: prev.score + bonus }, verseIdx);
       saveSession(s);
       return s;
     });
   };
 
+  const continueAfterVerse = () => {
+    if (!gameState || !gameState.isRoundClearing || memorization) return;
+    if (memorizationStyle === 'off') {
+      advanceToNextVerse();
+      return;
+    }
+    setMemorization(createChallenge(getVerseTokens(gameState), memorizationStyle, createRng(randomSeed())));
+  };
+
+  const completeMemorization = (result: MemorizationResult | null) => {
+    if (!gameState) return;
+    if (result) recordMemorizationResult(getPackVerses(gameState.packId)[gameState.currentVerseIndex].reference, result);
+    setMemorization(null);
+    // A skipped challenge says nothing about recall, so the schedule is left alone
+    advanceToNextVerse(result?.points ?? 0, result ? qualityFromAccuracy(result.accuracy) : null);
+  };
+
   const placePiece = () => {
     if (!gameState || isDragging || gameState.isRoundClearing || gameState.activePieceIndex === null) return;
-    const { trayPieces, activePieceIndex, currentPiecePos, grid, score, combo, collectedIndices, currentVerseIndex, highScore } = gameState;
+    const { trayPieces, activePieceIndex, currentPiecePos } = gameState;
     const currentPiece = trayPieces[activePieceIndex];
     if (!currentPiece) return;
 
     const snapX = Math.round(currentPiecePos.x);
     const snapY = Math.round(currentPiecePos.y);
 
-    if (snapY < 0 || snapY > GRID_SIZE - currentPiece.shape.length || 
-        snapX < 0 || snapX > GRID_SIZE - currentPiece.shape[0].length || 
-        checkCollision(grid, currentPiece, { x: snapX, y: snapY })) {
+    const result = applyMove(gameState, activePieceIndex, 0, { x: snapX, y: snapY });
+    if (!result) {
       setGameState({ ...gameState, activePieceIndex: null });
       return;
     }
 
-    const newGrid = grid.map(row => row.map(cell => ({ ...cell })));
-    currentPiece.shape.forEach((row, py) => {
-      row.forEach((value, px) => {
-        if (value) {
-          const gx = snapX + px;
-          const gy = snapY + py;
-          newGrid[gy][gx].filled = true;
-          newGrid[gy][gx].color = currentPiece.color;
-        }
-      });
-    });
-
-    const rowsToRemove: number[] = [];
-    const colsToRemove: number[] = [];
-    for (let y = 0; y < GRID_SIZE; y++) if (newGrid[y].every(c => c.filled)) rowsToRemove.push(y);
-    for (let x = 0; x < GRID_SIZE; x++) {
-      let full = true;
-      for (let y = 0; y < GRID_SIZE; y++) if (!newGrid[y][x].filled) { full = false; break; }
-      if (full) colsToRemove.push(x);
-    }
-
-    const collectedInThisTurn = new Set<number>();
-    rowsToRemove.forEach(y => {
-      for (let x = 0; x < GRID_SIZE; x++) {
-        if (newGrid[y][x].charIndex !== null && !newGrid[y][x].collected) {
-          newGrid[y][x].collected = true;
-          collectedInThisTurn.add(newGrid[y][x].charIndex!);
-        }
-        newGrid[y][x].filled = false;
+    result.events.forEach(ev => {
+      if (ev.type === 'linesCleared') {
+        scoreEffectsRef.current.push({
+          id: Date.now(),
+          x: snapX + currentPiece.shape[0].length / 2,
+          y: snapY + currentPiece.shape.length / 2,
+          text: `+${ev.points}${ev.combo > 1 ? ` (x${ev.combo})` : ''}`,
+          life: 1.0
+        });
+      } else if (ev.type === 'powerUpUsed') {
+        scoreEffectsRef.current.push({ id: Date.now(), x: snapX + 0.5, y: snapY + 0.5, text: `${POWER_UP_ICONS[ev.powerUp]} +${ev.points}`, life: 1.0 });
+      } else if (ev.type === 'scored') {
+        // Verse bonuses stack under the line points, one popup per item
+        ev.items
+          .filter(item => item.kind === 'inOrder' || item.kind === 'phrase' || item.kind === 'efficiency')
+          .forEach((item, i) => scoreEffectsRef.current.push({
+            id: Date.now() + i,
+            x: snapX + currentPiece.shape[0].length / 2,
+            y: snapY + currentPiece.shape.length / 2 + 0.7 * (i + 1),
+            text: `${t[`score_${item.kind}`]} +${item.points}`,
+            life: 1.0,
+            color: '#f59e0b'
+          }));
+      } else if (ev.type === 'spaceCleared') {
+        scoreEffectsRef.current.push({ id: Date.now(), x: gameState.boardSize / 2, y: gameState.boardSize / 2, text: t.zen_space_cleared, life: 1.0, color: '#10b981' });
+      } else if (ev.type === 'powerUpEarned') {
+        scoreEffectsRef.current.push({ id: Date.now(), x: gameState.boardSize / 2, y: gameState.boardSize - 1, text: `+${POWER_UP_ICONS[ev.powerUp]}`, life: 1.0 });
       }
     });
-    colsToRemove.forEach(x => {
-      for (let y = 0; y < GRID_SIZE; y++) {
-        if (newGrid[y][x].charIndex !== null && !newGrid[y][x].collected) {
-          newGrid[y][x].collected = true;
-          collectedInThisTurn.add(newGrid[y][x].charIndex!);
-        }
-        newGrid[y][x].filled = false;
-      }
-    });
-
-    const linesCleared = rowsToRemove.length + colsToRemove.length;
-    const newCombo = linesCleared > 0 ? combo + 1 : 0;
-    let addedScore = 0;
-    if (linesCleared > 0) {
-      const multiplier = Math.min(newCombo, 10);
-      addedScore = (linesCleared * linesCleared * 100) * multiplier;
-    } else {
-      addedScore = 10;
-    }
-    
-    const newScore = score + addedScore;
-    
-    if (linesCleared > 0) {
-      scoreEffectsRef.current.push({
-        id: Date.now(),
-        x: snapX + currentPiece.shape[0].length / 2,
-        y: snapY + currentPiece.shape.length / 2,
-        text: `+${addedScore}${newCombo > 1 ? ` (x${newCombo})` : ''}`,
-        life: 1.0
-      });
-    }
-
-    const newTray = [...trayPieces];
-    newTray[activePieceIndex] = null;
-    const isTrayEmpty = newTray.every(p => p === null);
-    const finalTray = isTrayEmpty ? [getRandomPiece(), getRandomPiece(), getRandomPiece()] : newTray;
-    const newCollectedIndices = new Set([...Array.from(collectedIndices), ...Array.from(collectedInThisTurn)]);
-    const currentVerseText = SAMPLE_VERSES[currentVerseIndex].text;
 
     const nextState: GameState = {
-      ...gameState,
-      score: newScore,
-      combo: newCombo,
-      grid: newGrid,
-      trayPieces: finalTray,
+      ...withAction(result.nextState, [activePieceIndex, 0, snapX, snapY]),
+      stats: recordEvents(gameState.stats, result.events),
       activePieceIndex: null,
-      collectedIndices: newCollectedIndices,
     };
+    setHint(null);
 
-    if (newCollectedIndices.size >= currentVerseText.length) {
+    if (nextState.isRoundClearing) {
       // SUCCESS! Wait for user click to continue
-      setGameState({ ...nextState, isRoundClearing: true });
+      const completedVerses = recordVerseCompletion(getPackVerses(nextState.packId)[nextState.currentVerseIndex].reference);
+      // Zen runs rarely end, so their record is kept up to date verse by verse
+      const highScore = nextState.mode === 'zen' ? recordHighScore('zen', nextState.difficulty, nextState.score) : nextState.highScore;
+      setGameState({ ...nextState, completedVerses, highScore });
+    } else if (nextState.isGameOver) {
+      finishRun(nextState);
     } else {
-      const remainingPieces = finalTray.filter(p => p !== null);
-      if (remainingPieces.length > 0 && !remainingPieces.some(p => canPlaceAnywhere(newGrid, p!))) {
-        let finalHighScore = highScore;
-        if (newScore > highScore) {
-          finalHighScore = newScore;
-          saveGameData({ highScore: finalHighScore });
-        }
-        setGameState({ ...nextState, highScore: finalHighScore, isGameOver: true });
-        clearSession();
-        setHasSession(false);
-      } else {
-        setGameState(nextState);
-        saveSession(nextState);
-      }
+      setGameState(nextState);
+      saveSession(nextState);
     }
+    checkAchievements(result.events);
   };
 
-  const animate = useCallback(() => {
-    if (!gameState || gameState.screen !== 'playing' || !canvasRef.current) return;
-    
-    const dpr = window.devicePixelRatio || 1;
-    const canvas = canvasRef.current;
-    const rect = canvas.getBoundingClientRect();
-    const { scale, offsetX, offsetY } = getScaleInfo();
+  const undoLastMove = () => {
+    if (!gameState || isDragging) return;
+    const restored = undoMove(gameState);
+    if (!restored) return;
+    const s: GameState = { ...withAction(restored, ['u']), activePieceIndex: null };
+    setHint(null);
+    setGameState(s);
+    saveSession(s);
+  };
 
-    if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
-      canvas.width = rect.width * dpr; canvas.height = rect.height * dpr;
-    }
+  const showHint = () => {
+    if (!gameState || isDragging) return;
+    const taken = takeHint(gameState);
+    if (!taken) return;
+    const s = withAction(taken.state, ['h']);
+    setHint(taken.move);
+    setGameState(s);
+    saveSession(s);
+  };
 
-    const ctx = canvas.getContext('2d')!;
-    ctx.save(); ctx.scale(dpr, dpr); ctx.clearRect(0, 0, rect.width, rect.height);
-    ctx.translate(offsetX, offsetY);
-    
-    ctx.fillStyle = '#f8fafc'; 
-    ctx.fillRect(0, 0, LOGICAL_W * scale, LOGICAL_BOARD_H * scale);
-    
-    ctx.strokeStyle = '#e2e8f0'; ctx.lineWidth = 1;
-    for(let i=0; i<=GRID_SIZE; i++) {
-        ctx.beginPath(); ctx.moveTo(i * scale, 0); ctx.lineTo(i * scale, LOGICAL_BOARD_H * scale); ctx.stroke();
-        ctx.beginPath(); ctx.moveTo(0, i * scale); ctx.lineTo(LOGICAL_W * scale, i * scale); ctx.stroke();
+  const reshuffleBlockedVerse = () => {
+    if (!gameState || isDragging) return;
+    const reshuffled = reshuffleVerse(gameState);
+    if (!reshuffled) return;
+    const s: GameState = { ...withAction(reshuffled, ['s']), activePieceIndex: null };
+    setHint(null);
+    if (s.isGameOver) {
+      finishRun(s);
+      return;
     }
+    setGameState(s);
+    saveSession(s);
+  };
 
-    ctx.fillStyle = '#f1f5f9';
-    ctx.fillRect(0, (LOGICAL_BOARD_H + TRAY_GAP) * scale, LOGICAL_W * scale, LOGICAL_TRAY_H * scale);
-
-    for (let y = 0; y < GRID_SIZE; y++) {
-      for (let x = 0; x < GRID_SIZE; x++) {
-        const cell = gameState.grid[y][x];
-        if (cell.filled) { ctx.fillStyle = cell.color || '#cbd5e1'; ctx.fillRect(x * scale + 1, y * scale + 1, scale - 2, scale - 2); }
-        if (cell.char) {
-          const ok = cell.collected || gameState.isRoundClearing;
-          if (ok) { ctx.fillStyle = '#0ea5e9'; ctx.font = `bold ${Math.max(12, scale * 0.55)}px sans-serif`; ctx.textAlign = 'center'; ctx.textBaseline = 'middle'; ctx.fillText(cell.char, (x + 0.5) * scale, (y + 0.5) * scale); }
-          else { ctx.fillStyle = '#e2e8f0'; ctx.beginPath(); ctx.arc((x + 0.5) * scale, (y + 0.5) * scale, scale * 0.1, 0, Math.PI * 2); ctx.fill(); }
-        }
-      }
+  const continueSession = () => {
+    if (!gameState) return;
+    let saved: RestoredSession | null;
+    try {
+      saved = loadSession();
+    } catch (e) {
+      // The unreadable save has been dropped; say why instead of starting a broken game
+      setSessionError((e as Error).message);
+      setHasSession(false);
+      return;
     }
+    if (!saved) return;
+    const s: GameState = {
+      ...gameState,
+      ...saved,
+      screen: 'playing',
+      highScore: storedHighScore(saved.mode, saved.difficulty),
+      activePieceIndex: null,
+      currentPiecePos: { x: 0, y: 0 },
+    };
+    setSessionError(null);
+    setHint(null);
+    scoreEffectsRef.current = [];
+    if (s.isGameOver) finishRun(s);
+    else setGameState(s);
+  };
 
-    gameState.trayPieces.forEach((p, i) => {
-      if (!p || gameState.activePieceIndex === i) return;
-      const pos = getTrayPiecePos(i, p);
-      ctx.fillStyle = p.color;
-      p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.fillRect((pos.x + px) * scale + 2, (pos.y + py) * scale + 2, scale - 4, scale - 4)));
-    });
+  // Time played counts whenever a run is on screen, verse summaries and memorization included
+  const runOnScreen = gameState?.screen === 'playing' && !gameState.isGameOver;
+  useEffect(() => {
+    if (!runOnScreen) return;
+    let last = Date.now();
+    const id = window.setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - last;
+      last = now;
+      setGameState(prev => prev && { ...prev, stats: addPlayTime(prev.stats, elapsed) });
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [runOnScreen]);
+
+  // The clock of a timed run only runs while a verse is on the board
+  const clockRunning = gameState?.screen === 'playing' && gameState.timeLeftMs !== null && !gameState.isGameOver && !gameState.isRoundClearing;
+  useEffect(() => {
+    if (!clockRunning) return;
+    let last = Date.now();
+    const id = window.setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - last;
+      last = now;
+      setGameState(prev => prev && prev.timeLeftMs !== null ? { ...prev, timeLeftMs: Math.max(0, prev.timeLeftMs - elapsed) } : prev);
+    }, 250);
+    return () => window.clearInterval(id);
+  }, [clockRunning]);
 
-    if (gameState.activePieceIndex !== null) {
-      const p = gameState.trayPieces[gameState.activePieceIndex]!;
-      const pos = gameState.currentPiecePos;
-      const snapX = Math.round(pos.x); const snapY = Math.round(pos.y);
-      if (snapY < GRID_SIZE && snapX >= 0 && snapX <= GRID_SIZE - p.shape[0].length && snapY >= 0 && snapY <= GRID_SIZE - p.shape.length) {
-        ctx.globalAlpha = 0.25; ctx.fillStyle = p.color;
-        p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.fillRect((snapX + px) * scale, (snapY + py) * scale, scale, scale)));
-        ctx.globalAlpha = 1.0;
-      }
-      ctx.shadowBlur = 10; ctx.shadowColor = 'rgba(0,0,0,0.2)'; ctx.fillStyle = p.color;
-      p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.fillRect((pos.x + px) * scale + 1, (pos.y + py) * scale + 1, scale - 2, scale - 2)));
-      ctx.strokeStyle = '#0ea5e9'; ctx.lineWidth = 2; ctx.shadowBlur = 0;
-      p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.strokeRect((pos.x + px) * scale + 1, (pos.y + py) * scale + 1, scale - 2, scale - 2)));
-    }
+  useEffect(() => {
+    if (gameState && clockRunning && gameState.timeLeftMs === 0) finishRun(gameState);
+  }, [gameState?.timeLeftMs, clockRunning]);
+
+  /** Reloads the menu's settings after the stored ones changed underneath it: another profile, an imported backup. */
+  const loadStoredSettings = () => {
+    const data = loadGameData();
+    setSelectedPackId(installedPackId(data.selectedPackId));
+    setMemorizationStyle(data.memorizationStyle);
+    setUndoLimit(data.undoLimit);
+    setDifficulty(data.difficulty);
+    setPlayMode(data.mode);
+    setHasSession(loadSessionData() !== null);
+    setSessionError(null);
+    setBackupNotice(null);
+    setPackError(null);
+    setGameState(prev => prev && { ...prev, language: data.language, completedVerses: data.completedVerses });
+  };
+
+  const rotateActivePiece = () => {
+    if (!gameState || gameState.activePieceIndex === null) return;
+    const idx = gameState.activePieceIndex;
+    setGameState(withAction(rotateTrayPiece(gameState, idx), ['r', idx]));
+  };
+
+  const animate = useCallback(() => {
+    if (!gameState || gameState.screen !== 'playing' || !canvasRef.current) return;
+    
+    const { ctx, scale } = beginFrame(canvasRef.current, gameState);
+    drawBoard(ctx, { ...gameState, hint }, scale);
 
     scoreEffectsRef.current = scoreEffectsRef.current.filter(e => e.life > 0);
     scoreEffectsRef.current.forEach(e => {
-        ctx.fillStyle = '#0ea5e9'; ctx.font = `bold ${scale * 0.4}px sans-serif`; ctx.globalAlpha = e.life; ctx.textAlign = 'center';
+        ctx.fillStyle = e.color ?? '#0ea5e9'; ctx.font = `bold ${scale * 0.4}px sans-serif`; ctx.globalAlpha = e.life; ctx.textAlign = 'center';
         ctx.fillText(e.text, e.x * scale, (e.y - (1 - e.life) * 2) * scale); e.life -= 0.02;
     });
     
     ctx.restore();
     requestRef.current = requestAnimationFrame(animate);
-  }, [gameState, getTrayPiecePos, getScaleInfo]);
+  }, [gameState, hint]);
 
   useEffect(() => {
     if (gameState?.screen === 'playing') requestRef.current = requestAnimationFrame(animate);
@@ -344,7 +516,7 @@ const App: React.FC = () => {
 
   const handlePointerDown = (e: React.PointerEvent) => {
     if (!gameState || gameState.screen !== 'playing' || gameState.isRoundClearing) return;
-    const { scale, offsetX, offsetY } = getScaleInfo();
+    const { scale, offsetX, offsetY } = getScaleInfo(canvasRef.current, gameState);
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return;
     
@@ -365,16 +537,17 @@ const App: React.FC = () => {
     let trayIdx: number | null = null;
     gameState.trayPieces.forEach((p, i) => {
       if (!p) return;
-      const pos = getTrayPiecePos(i, p);
-      if (lx >= pos.x - 0.3 && lx <= pos.x + p.shape[0].length + 0.3 && 
-          ly >= pos.y - 0.3 && ly <= pos.y + p.shape.length + 0.3) {
+      const pos = getTrayPiecePos(i, p, gameState);
+      const cell = getTrayCellSize(p, gameState);
+      if (lx >= pos.x - 0.3 && lx <= pos.x + p.shape[0].length * cell + 0.3 && 
+          ly >= pos.y - 0.3 && ly <= pos.y + p.shape.length * cell + 0.3) {
         trayIdx = i;
       }
     });
 
     if (trayIdx !== null) {
       const p = gameState.trayPieces[trayIdx]!;
-      const trayPos = getTrayPiecePos(trayIdx, p);
+      const trayPos = getTrayPiecePos(trayIdx, p, gameState);
       setIsDragging(true); 
       setDragOffset({ x: lx - trayPos.x, y: ly - trayPos.y });
       setGameState({ ...gameState, activePieceIndex: trayIdx, currentPiecePos: trayPos });
@@ -384,7 +557,7 @@ const App: React.FC = () => {
 
   const handlePointerMove = (e: React.PointerEvent) => {
     if (!isDragging || !gameState || gameState.activePieceIndex === null) return;
-    const { scale, offsetX, offsetY } = getScaleInfo();
+    const { scale, offsetX, offsetY } = getScaleInfo(canvasRef.current, gameState);
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return;
     const lx = (e.clientX - rect.left - offsetX) / scale;
@@ -398,94 +571,242 @@ const App: React.FC = () => {
     const p = gameState.trayPieces[gameState.activePieceIndex!];
     if (!p) return;
     const pos = gameState.currentPiecePos;
-    if (pos.y < GRID_SIZE - 0.5 && pos.x >= -0.5 && pos.x <= GRID_SIZE - p.shape[0].length + 0.5) {
+    if (pos.y < gameState.boardSize - 0.5 && pos.x >= -0.5 && pos.x <= gameState.boardSize - p.shape[0].length + 0.5) {
       setGameState({ ...gameState, currentPiecePos: { x: Math.round(pos.x), y: Math.round(pos.y) } });
     }
   };
 
   if (!gameState) return <div className="fixed inset-0 bg-white flex items-center justify-center text-sky-500 text-xl font-bold">載入中...</div>;
 
+  if (gameState.screen === 'collection') {
+    return <VerseCollection verses={getPackVerses(selectedPackId)} collection={gameState.completedVerses} language={gameState.language} t={t} onBack={() => setGameState({ ...gameState, screen: 'menu' })} />;
+  }
+
+  if (gameState.screen === 'stats') {
+    const { stats, lastGameStats } = loadGameData();
+    return <StatsScreen lifetime={stats} lastGame={lastGameStats} t={t} onBack={() => setGameState({ ...gameState, screen: 'menu' })} />;
+  }
+
+  if (gameState.screen === 'badges') {
+    return <BadgesScreen unlocks={loadGameData().achievements} t={t} onBack={() => setGameState({ ...gameState, screen: 'menu' })} />;
+  }
+
+  if (gameState.screen === 'profiles') {
+    return <ProfilesScreen language={gameState.language} t={t} onSwitch={loadStoredSettings} onBack={() => setGameState(prev => prev && { ...prev, screen: 'menu' })} />;
+  }
+
+  if (gameState.screen === 'replays') {
+    return <ReplayScreen t={t} onBack={() => setGameState({ ...gameState, screen: 'menu' })} />;
+  }
+
   if (gameState.screen === 'menu') {
+    const todayKey = getDateKey(new Date());
+    const todayScore = loadGameData().dailyScores[todayKey];
+    const dailyLocked = isDailyLocked(todayKey);
+    const packVerses = getPackVerses(selectedPackId);
+    const collectedInPack = packVerses.filter(v => gameState.completedVerses[v.reference]).length;
+    const selectPack = (packId: string) => {
+      saveGameData({ selectedPackId: packId });
+      setSelectedPackId(packId);
+    };
+    const handlePackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+        const pack = importVersePack(await file.text());
+        setPackError(null);
+        selectPack(pack.id);
+      } catch (err) {
+        setPackError((err as Error).message);
+      }
+    };
+    const exportProgress = () => {
+      const backup = exportBackup();
+      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `bible-blocks-backup-${backup.exportedAt.slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    };
+    const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+        const data = importBackup(await file.text());
+        loadStoredSettings();
+        setBackupNotice({ ok: true, text: getTranslation(data.language).backup_imported });
+      } catch (err) {
+        setBackupNotice({ ok: false, text: `${t.backup_import_failed}: ${(err as Error).message}` });
+      }
+    };
     return (
       <div className="flex-1 bg-white flex flex-col items-center justify-center p-8 space-y-8">
         <button onClick={() => { 
           const nextLang: Language = gameState.language === 'en' ? 'zh' : 'en';
-          localStorage.setItem('lang', nextLang);
+          saveGameData({ language: nextLang });
           setGameState({...gameState, language: nextLang});
         }} className="absolute top-4 right-4 text-[10px] font-black text-sky-500 border-2 border-sky-500 px-3 py-1 rounded-full uppercase">{gameState.language === 'en' ? '中文' : 'English'}</button>
+        <div className="flex items-center gap-2">
+          {loadProfiles().map(profile => (
+            <button key={profile.id} onClick={() => { switchProfile(profile.id); loadStoredSettings(); }} aria-label={profile.name || t.profile_default_name}>
+              <ProfileAvatar profile={profile} fallbackName={t.profile_default_name} active={profile.id === getActiveProfile().id} />
+            </button>
+          ))}
+          <button onClick={() => setGameState({ ...gameState, screen: 'profiles' })} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_profiles}</button>
+        </div>
         <div className="text-center">
             <h1 className="text-5xl font-black text-sky-500 italic tracking-tighter uppercase mb-2 leading-none">聖經方塊</h1>
             <p className="text-slate-300 font-bold uppercase tracking-widest text-[10px]">{t.menu_subtitle}</p>
         </div>
         <div className="bg-slate-50 p-6 rounded-[3rem] w-full max-w-xs text-center border-2 border-slate-100">
-            <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">{t.menu_record}</span>
-            <span className="text-5xl font-black text-slate-400 leading-none">{gameState.highScore}</span>
+            <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">{t.menu_record} · {t[`mode_${playMode}`]} · {t[`difficulty_${difficulty}`]}</span>
+            <span className="text-5xl font-black text-slate-400 leading-none">{loadGameData().highScores[playMode][difficulty]}</span>
         </div>
         <div className="flex flex-col w-full max-w-xs space-y-4">
-            {hasSession && <button onClick={() => { const s = loadSession(); if(s) setGameState({...s, screen: 'playing'}); }} className="w-full bg-sky-50 text-sky-600 py-4 rounded-3xl font-black text-lg flex items-center justify-center gap-3 active:scale-95 border border-sky-100"><PlayIcon /> {t.btn_continue}</button>}
+            {hasSession && <button onClick={continueSession} className="w-full bg-sky-50 text-sky-600 py-4 rounded-3xl font-black text-lg flex items-center justify-center gap-3 active:scale-95 border border-sky-100"><PlayIcon /> {t.btn_continue}</button>}
             <button onClick={startNewGame} className="w-full bg-sky-500 text-white py-5 rounded-3xl font-black text-lg shadow-xl border-b-4 border-sky-700 active:translate-y-1 active:border-b-0 uppercase tracking-widest">{t.btn_new_game}</button>
+            <button onClick={startDailyChallenge} disabled={dailyLocked} className="w-full bg-amber-400 text-white py-4 rounded-3xl font-black text-lg shadow-md border-b-4 border-amber-600 active:translate-y-1 active:border-b-0 uppercase tracking-widest disabled:bg-slate-100 disabled:text-slate-400 disabled:border-slate-200 disabled:shadow-none flex flex-col items-center leading-none">
+              <span>{t.btn_daily}</span>
+              <span className="text-[9px] mt-1 tracking-normal">
+                {dailyLocked ? `${t.daily_today} ${todayScore ?? t.daily_unfinished} · ${t.daily_done}` : todayKey} · {t.daily_streak} {getDailyStreak(todayKey)}
+              </span>
+            </button>
+            <button onClick={() => setGameState({ ...gameState, screen: 'collection', completedVerses: loadGameData().completedVerses })} className="w-full bg-slate-50 text-slate-500 py-3 rounded-3xl font-black text-sm border border-slate-200 active:scale-95 uppercase tracking-widest">{t.btn_collection} · {collectedInPack}/{packVerses.length}</button>
+            <div className="grid grid-cols-3 gap-2">
+              <button onClick={() => setGameState({ ...gameState, screen: 'replays' })} className="w-full bg-slate-50 text-slate-500 py-3 rounded-3xl font-black text-sm border border-slate-200 active:scale-95 uppercase tracking-widest">{t.btn_replays}</button>
+              <button onClick={() => setGameState({ ...gameState, screen: 'stats' })} className="w-full bg-slate-50 text-slate-500 py-3 rounded-3xl font-black text-sm border border-slate-200 active:scale-95 uppercase tracking-widest">{t.btn_stats}</button>
+              <button onClick={() => setGameState({ ...gameState, screen: 'badges' })} className="w-full bg-slate-50 text-slate-500 py-3 rounded-3xl font-black text-sm border border-slate-200 active:scale-95 uppercase tracking-widest">{t.btn_badges}</button>
+            </div>
+            <div className="flex items-center gap-2">
+              <select value={selectedPackId} onChange={e => selectPack(e.target.value)} aria-label={t.pack_label} className="flex-1 min-w-0 bg-white text-slate-500 py-2 px-3 rounded-2xl font-black text-xs border border-slate-200">
+                {getAllPacks().map(pack => (
+                  <option key={pack.id} value={pack.id}>{pack.id === DEFAULT_PACK_ID ? t.pack_classic : pack.name} ({pack.verses.length})</option>
+                ))}
+              </select>
+              <button onClick={() => packInputRef.current?.click()} className="flex-none bg-slate-50 text-slate-400 py-2 px-3 rounded-2xl font-black text-[10px] border border-slate-200 uppercase">{t.btn_import_pack}</button>
+              <input ref={packInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handlePackFile} />
+            </div>
+            {sessionError && <p className="text-[10px] font-bold text-rose-500 text-center">{t.session_load_failed}: {sessionError}</p>}
+            {packError && <p className="text-[10px] font-bold text-rose-500 text-center">{t.pack_import_failed}: {packError}</p>}
+            <div className="flex items-center gap-2">
+              <button onClick={exportProgress} className="flex-1 bg-white text-slate-400 py-2 rounded-2xl font-black text-[10px] border border-slate-200 uppercase tracking-widest">{t.btn_export_backup}</button>
+              <button onClick={() => backupInputRef.current?.click()} className="flex-1 bg-white text-slate-400 py-2 rounded-2xl font-black text-[10px] border border-slate-200 uppercase tracking-widest">{t.btn_import_backup}</button>
+              <input ref={backupInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleBackupFile} />
+            </div>
+            {backupNotice && <p className={`text-[10px] font-bold text-center ${backupNotice.ok ? 'text-sky-500' : 'text-rose-500'}`}>{backupNotice.text}</p>}
+            <button onClick={() => {
+              const next = MEMORIZATION_STYLES[(MEMORIZATION_STYLES.indexOf(memorizationStyle) + 1) % MEMORIZATION_STYLES.length];
+              saveGameData({ memorizationStyle: next });
+              setMemorizationStyle(next);
+            }} className="w-full bg-white text-slate-400 py-2 rounded-2xl font-black text-[10px] border border-slate-200 uppercase tracking-widest">
+              {t.memorize_label}: {memorizationStyle === 'order' ? t.memorize_order : memorizationStyle === 'blanks' ? t.memorize_blanks : t.memorize_off}
+            </button>
+            <button onClick={() => {
+              const next = UNDO_LIMIT_OPTIONS[(UNDO_LIMIT_OPTIONS.indexOf(undoLimit) + 1) % UNDO_LIMIT_OPTIONS.length];
+              saveGameData({ undoLimit: next });
+              setUndoLimit(next);
+            }} className="w-full bg-white text-slate-400 py-2 rounded-2xl font-black text-[10px] border border-slate-200 uppercase tracking-widest">
+              {t.btn_undo}: {undoLimit === null ? t.undo_unlimited : undoLimit === 0 ? t.undo_off : `${undoLimit} ${t.undo_per_verse}`}
+            </button>
+            <button onClick={() => {
+              const next = PLAY_MODES[(PLAY_MODES.indexOf(playMode) + 1) % PLAY_MODES.length];
+              saveGameData({ mode: next });
+              setPlayMode(next);
+            }} className="w-full bg-white text-slate-400 py-2 rounded-2xl font-black text-[10px] border border-slate-200 uppercase tracking-widest">
+              {t.mode_label}: {t[`mode_${playMode}`]}{playMode === 'timed' ? ` · ${TIMED_MODE_MINUTES} ${t.mode_minutes}` : ''}
+            </button>
+            <button onClick={() => {
+              const next = DIFFICULTIES[(DIFFICULTIES.indexOf(difficulty) + 1) % DIFFICULTIES.length];
+              saveGameData({ difficulty: next });
+              setDifficulty(next);
+            }} className="w-full bg-white text-slate-400 py-2 rounded-2xl font-black text-[10px] border border-slate-200 uppercase tracking-widest">
+              {t.difficulty_label}: {t[`difficulty_${difficulty}`]}
+            </button>
         </div>
       </div>
     );
   }
 
-  const currentVerse = SAMPLE_VERSES[gameState.currentVerseIndex];
+  const verse = getPackVerses(gameState.packId)[gameState.currentVerseIndex];
+  const currentVerse = getVerseText(verse, gameState.language);
+  const verseTokens = getVerseTokens(gameState);
+  const tokenUnit = TOKEN_UNITS[getVerseLanguage(verse, gameState.language)];
 
   return (
     <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
       <header className="h-[10dvh] flex-none flex justify-between items-center px-4 border-b border-slate-100">
         <div className="flex flex-col"><span className="text-[8px] font-black text-slate-300 uppercase leading-none">{t.hud_high}</span><span className="text-xs font-black text-slate-400 leading-none">{gameState.highScore}</span></div>
-        <div className="flex-1 flex flex-col items-center"><span className="text-[9px] font-black text-sky-500 uppercase leading-none">COMBO x{gameState.combo}</span><div className="text-[10px] font-black text-white bg-sky-500 px-3 py-0.5 rounded-full shadow-sm">{gameState.collectedIndices.size}/{currentVerse.text.length}</div></div>
+        <div className="flex-1 flex flex-col items-center">{gameState.timeLeftMs !== null && <span className={`text-[10px] font-black leading-none tabular-nums ${gameState.timeLeftMs < 30_000 ? 'text-rose-500' : 'text-slate-500'}`}>{formatClock(gameState.timeLeftMs)}</span>}<span className="text-[9px] font-black text-sky-500 uppercase leading-none">COMBO x{gameState.combo}</span><div className="text-[10px] font-black text-white bg-sky-500 px-3 py-0.5 rounded-full shadow-sm">{gameState.collectedIndices.size}/{getRequiredTokenCount(gameState)}</div></div>
         <div className="flex flex-col text-right"><span className="text-[8px] font-black text-slate-300 uppercase leading-none">{t.hud_score}</span><span className="text-xs font-black text-sky-500 leading-none">{gameState.score}</span></div>
       </header>
       
       <main className="h-[65dvh] flex-none bg-slate-50 relative overflow-hidden">
         <canvas ref={canvasRef} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} className="w-full h-full block touch-none" />
-        {gameState.isRoundClearing && (
-          <div 
-            onClick={advanceToNextVerse}
-            className="absolute inset-0 z-30 bg-sky-500/30 backdrop-blur-md flex flex-col items-center justify-center cursor-pointer active:scale-95 transition-all duration-300"
-          >
-            <div className="bg-white px-10 py-6 rounded-[3rem] shadow-2xl border-4 border-sky-500 flex flex-col items-center animate-bounce">
-              <span className="text-2xl font-black text-sky-500 uppercase italic mb-2">
-                {t.victory_title}
-              </span>
-              <span className="text-[10px] font-bold text-slate-400 animate-pulse uppercase tracking-widest">
-                {gameState.language === 'en' ? 'Tap to Continue' : '點擊繼續'}
-              </span>
-            </div>
+        {gameState.isRoundClearing && !memorization && (
+          <RoundSummary tally={gameState.verseTally} reference={currentVerse.reference} t={t} onContinue={continueAfterVerse} />
+        )}
+        {gameState.isVerseBlocked && !gameState.isGameOver && (
+          <div className="absolute top-2 inset-x-2 z-20 bg-white/95 border-2 border-amber-400 rounded-2xl px-3 py-2 flex items-center gap-2 shadow-lg">
+            <span className="flex-1 text-[10px] font-bold text-slate-500 leading-tight">{t.verse_blocked}</span>
+            <button onClick={reshuffleBlockedVerse} className="flex-none bg-amber-400 text-white px-3 py-1.5 rounded-xl font-black text-[10px] uppercase active:scale-95">{t.btn_reshuffle} -{RESHUFFLE_PENALTY}</button>
           </div>
         )}
+        {memorization && (
+          <MemorizationPanel 
+            tokens={verseTokens} 
+            challenge={memorization} 
+            reference={currentVerse.reference} 
+            t={t} 
+            onDone={completeMemorization} 
+          />
+        )}
       </main>
 
       <section className="h-[15dvh] flex-none px-6 bg-white flex flex-col items-center justify-center overflow-hidden border-t border-slate-100">
          <div className="flex flex-wrap justify-center gap-1 max-w-md overflow-y-auto max-h-full py-2">
-            {currentVerse.text.split('').map((char, i) => { 
-                const ok = gameState.collectedIndices.has(i) || gameState.isRoundClearing; 
-                return <span key={i} className={`text-[15px] sm:text-[18px] font-black transition-all duration-500 ${ok ? 'text-sky-500 scale-105' : 'text-slate-100'}`}>{ok ? char : '□'}</span>; 
+            {verseTokens.map((token, i) => { 
+                if (!token.text.trim()) return null;
+                const ok = !token.collectible || gameState.collectedIndices.has(i) || gameState.isRoundClearing; 
+                return <span key={i} className={`text-[15px] sm:text-[18px] font-black transition-all duration-500 ${ok ? 'text-sky-500 scale-105' : 'text-slate-100'}`}>{ok ? token.text : maskToken(token, tokenUnit)}</span>; 
             })}
          </div>
          <p className="text-[8px] font-bold text-slate-300 italic mt-1 line-clamp-1">— {currentVerse.reference}</p>
       </section>
 
       <footer className="h-[10dvh] flex-none bg-white px-4 flex items-center border-t border-slate-100">
-        <div className="grid grid-cols-4 gap-2 w-full max-w-lg mx-auto">
-          <button onClick={() => { if(gameState.activePieceIndex!==null) { const p = gameState.trayPieces[gameState.activePieceIndex]!; const r = rotatePiece(p); const newTray = [...gameState.trayPieces]; newTray[gameState.activePieceIndex] = r; setGameState({...gameState, trayPieces: newTray}); } }} className="h-10 bg-slate-50 text-slate-500 rounded-2xl border border-slate-200 flex flex-col items-center justify-center active:scale-95"><RotateIcon /><span className="text-[6px] font-black uppercase">{t.btn_rotate}</span></button>
+        <div className="grid grid-cols-6 gap-2 w-full max-w-lg mx-auto">
+          <button onClick={rotateActivePiece} className="h-10 bg-slate-50 text-slate-500 rounded-2xl border border-slate-200 flex flex-col items-center justify-center active:scale-95"><RotateIcon /><span className="text-[6px] font-black uppercase">{t.btn_rotate}</span></button>
+          <button onClick={undoLastMove} disabled={!canUndo(gameState)} className="h-10 bg-slate-50 text-slate-500 rounded-2xl border border-slate-200 flex flex-col items-center justify-center active:scale-95 disabled:opacity-40"><UndoIcon /><span className="text-[6px] font-black uppercase">{t.btn_undo}{gameState.undoLimit !== null && gameState.undoLimit > 0 ? ` ${gameState.undoLimit - gameState.undosUsed}` : ''}</span></button>
+          <button onClick={showHint} disabled={!canTakeHint(gameState)} className="h-10 bg-slate-50 text-slate-500 rounded-2xl border border-slate-200 flex flex-col items-center justify-center active:scale-95 disabled:opacity-40"><HintIcon /><span className="text-[6px] font-black uppercase">{t.btn_hint} {gameState.hintLimit - gameState.hintsUsed}</span></button>
           <button onClick={placePiece} className="h-12 col-span-2 bg-sky-500 text-white rounded-2xl shadow-md border-b-4 border-sky-700 active:translate-y-0.5 active:border-b-0 flex flex-col items-center justify-center"><PlaceIcon /><span className="text-[8px] font-black uppercase">{t.btn_confirm}</span></button>
           <button onClick={() => { saveSession(gameState); setGameState({...gameState, screen: 'menu'}); }} className="h-10 bg-slate-50 text-slate-500 rounded-2xl border border-slate-200 flex flex-col items-center justify-center active:scale-95"><MenuIcon /><span className="text-[6px] font-black uppercase">{t.btn_home}</span></button>
         </div>
       </footer>
 
+      {achievementToasts.length > 0 && (
+        <div key={achievementToasts[0].id} className="fixed top-4 inset-x-4 z-[60] mx-auto max-w-xs bg-white border-2 border-amber-400 rounded-2xl px-4 py-2 flex items-center gap-3 shadow-xl pointer-events-none">
+          <span className="text-2xl">{achievementToasts[0].icon}</span>
+          <div className="flex flex-col">
+            <span className="text-[8px] font-black text-amber-500 uppercase tracking-widest leading-none">{t.badge_unlocked}</span>
+            <span className="text-sm font-black text-slate-700">{t[`achievement_${achievementToasts[0].id}`]}</span>
+          </div>
+        </div>
+      )}
+
       {gameState.isGameOver && (
         <div className="fixed inset-0 z-50 bg-slate-900/90 backdrop-blur-md flex items-center justify-center p-6">
            <div className="bg-white w-full max-w-xs rounded-[3rem] p-8 text-center shadow-2xl">
-              <h2 className="text-2xl font-black text-sky-500 mb-1 italic uppercase leading-none">{t.game_over_title}</h2>
+              <h2 className="text-2xl font-black text-sky-500 mb-1 italic uppercase leading-none">{gameState.mode === 'daily' && gameState.isRoundClearing ? t.daily_complete_title : gameState.timeLeftMs === 0 ? t.time_up_title : t.game_over_title}</h2>
               <div className="my-6">
                 <p className="text-slate-300 text-[9px] font-black uppercase mb-1">{t.game_over_final_score}</p>
                 <p className="text-5xl font-black text-slate-800 tracking-tighter leading-none">{gameState.score}</p>
               </div>
               <div className="space-y-2">
-                <button onClick={startNewGame} className="w-full bg-sky-500 text-white py-4 rounded-[1.5rem] font-black text-base shadow-lg active:scale-95 uppercase tracking-widest">{t.btn_try_again}</button>
+                {gameState.mode !== 'daily' && <button onClick={startNewGame} className="w-full bg-sky-500 text-white py-4 rounded-[1.5rem] font-black text-base shadow-lg active:scale-95 uppercase tracking-widest">{t.btn_try_again}</button>}
                 <button onClick={() => { setGameState({...gameState, screen:'menu', isGameOver:false}); setHasSession(false); }} className="w-full bg-slate-100 text-slate-400 py-3 rounded-[1.5rem] font-black text-[10px] uppercase">{t.btn_main_menu}</button>
               </div>
            </div>
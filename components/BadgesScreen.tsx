@@ -0,0 +1,43 @@
+import React from 'react';
+import { ACHIEVEMENTS } from '../constants';
+import { AchievementUnlocks } from '../types';
+import { getTranslation } from '../services/i18n';
+
+interface Props {
+  unlocks: AchievementUnlocks;
+  t: ReturnType<typeof getTranslation>;
+  onBack: () => void;
+}
+
+const BadgesScreen: React.FC<Props> = ({ unlocks, t, onBack }) => {
+  const unlocked = ACHIEVEMENTS.filter(a => unlocks[a.id]).length;
+
+  return (
+    <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
+      <header className="flex-none px-6 pt-6 pb-4 border-b border-slate-100 flex items-center justify-between">
+        <h1 className="text-2xl font-black text-sky-500 italic uppercase leading-none">{t.badges_title} · {unlocked}/{ACHIEVEMENTS.length}</h1>
+        <button onClick={onBack} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_back}</button>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+        {ACHIEVEMENTS.map(achievement => {
+          const unlockedAt = unlocks[achievement.id];
+          return (
+            <div key={achievement.id} className={`flex items-center gap-3 rounded-2xl border p-3 ${unlockedAt ? 'bg-sky-50 border-sky-100' : 'bg-slate-50 border-slate-100'}`}>
+              <span className={`text-2xl ${unlockedAt ? '' : 'grayscale opacity-30'}`}>{achievement.icon}</span>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-black ${unlockedAt ? 'text-slate-700' : 'text-slate-400'}`}>{t[`achievement_${achievement.id}`]}</p>
+                <p className="text-[10px] font-bold text-slate-400 leading-tight">{t[`achievement_${achievement.id}_desc`]}</p>
+              </div>
+              <span className={`flex-none text-[9px] font-black uppercase ${unlockedAt ? 'text-sky-500' : 'text-slate-300'}`}>
+                {unlockedAt ? new Date(unlockedAt).toLocaleDateString() : t.badges_locked}
+              </span>
+            </div>
+          );
+        })}
+      </main>
+    </div>
+  );
+};
+
+export default BadgesScreen;
@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { VerseToken } from '../services/tokenizer';
+import {
+  MemorizationChallenge,
+  MemorizationResult,
+  answerChallenge,
+  isChallengeComplete,
+  scoreChallenge,
+  startProgress
+} from '../services/memorization';
+import { getTranslation } from '../services/i18n';
+
+interface Props {
+  tokens: VerseToken[];
+  challenge: MemorizationChallenge;
+  reference: string;
+  t: ReturnType<typeof getTranslation>;
+  onDone: (result: MemorizationResult | null) => void;
+}
+
+const MemorizationPanel: React.FC<Props> = ({ tokens, challenge, reference, t, onDone }) => {
+  const [progress, setProgress] = useState(() => startProgress(challenge));
+  const [wrongId, setWrongId] = useState<number | null>(null);
+  const [result, setResult] = useState<MemorizationResult | null>(null);
+  const startedAt = useRef(Date.now());
+
+  const pick = (choiceId: number) => {
+    if (result) return;
+    const answer = answerChallenge(challenge, tokens, progress, choiceId);
+    setProgress(answer.progress);
+    setWrongId(answer.correct ? null : choiceId);
+    if (isChallengeComplete(challenge, answer.progress)) {
+      setResult(scoreChallenge(challenge, answer.progress, Date.now() - startedAt.current));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-white/95 backdrop-blur-md flex flex-col items-center justify-center p-6">
+      <span className="text-lg font-black text-sky-500 uppercase italic mb-1">{challenge.style === 'order' ? t.memorize_order_title : t.memorize_blanks_title}</span>
+      <span className="text-[9px] font-bold text-slate-300 mb-4">— {reference}</span>
+
+      <div className="flex flex-wrap justify-center gap-1 max-w-md mb-6">
+        {tokens.map((token, i) => {
+          if (!token.text.trim()) return null;
+          const slot = challenge.slots.indexOf(i);
+          if (slot === -1) return <span key={i} className="text-base font-black text-slate-400">{token.text}</span>;
+          if (slot < progress.filled) return <span key={i} className="text-base font-black text-sky-500">{token.text}</span>;
+          return <span key={i} className={`text-base font-black min-w-[1.25rem] text-center border-b-2 ${slot === progress.filled ? 'border-sky-500 text-sky-200' : 'border-slate-200 text-transparent'}`}>{'＿'}</span>;
+        })}
+      </div>
+
+      {result ? (
+        <div className="bg-sky-50 border-2 border-sky-100 rounded-[2rem] px-8 py-5 text-center">
+          <div className="flex gap-6 justify-center mb-4">
+            <div><p className="text-[9px] font-black text-slate-300 uppercase">{t.memorize_accuracy}</p><p className="text-2xl font-black text-sky-500">{Math.round(result.accuracy * 100)}%</p></div>
+            <div><p className="text-[9px] font-black text-slate-300 uppercase">{t.memorize_time}</p><p className="text-2xl font-black text-sky-500">{(result.timeMs / 1000).toFixed(1)}s</p></div>
+            <div><p className="text-[9px] font-black text-slate-300 uppercase">{t.hud_score}</p><p className="text-2xl font-black text-sky-500">+{result.points}</p></div>
+          </div>
+          <button onClick={() => onDone(result)} className="w-full bg-sky-500 text-white py-3 rounded-2xl font-black text-sm uppercase tracking-widest active:scale-95">{t.btn_next_verse}</button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap justify-center gap-2 max-w-md">
+            {progress.remaining.map(choice => (
+              <button key={choice.id} onClick={() => pick(choice.id)} className={`px-3 py-2 rounded-xl font-black text-sm border-2 active:scale-95 transition-colors ${wrongId === choice.id ? 'border-rose-400 text-rose-500 bg-rose-50' : 'border-slate-200 text-slate-600 bg-white'}`}>{choice.text}</button>
+            ))}
+          </div>
+          <button onClick={() => onDone(null)} className="mt-6 text-[10px] font-black text-slate-300 uppercase">{t.btn_skip}</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MemorizationPanel;
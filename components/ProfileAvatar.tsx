@@ -0,0 +1,22 @@
+import React from 'react';
+import { Profile } from '../types';
+
+interface Props {
+  profile: Profile;
+  /** Shown for a profile without a name. */
+  fallbackName: string;
+  active?: boolean;
+  size?: 'sm' | 'lg';
+}
+
+/** A profile's color with the first letter of its name. */
+const ProfileAvatar: React.FC<Props> = ({ profile, fallbackName, active = false, size = 'sm' }) => (
+  <span
+    style={{ backgroundColor: profile.color }}
+    className={`inline-flex flex-none items-center justify-center rounded-full font-black text-white uppercase ${size === 'lg' ? 'w-12 h-12 text-lg' : 'w-9 h-9 text-sm'} ${active ? 'ring-4 ring-offset-2 ring-sky-200' : ''}`}
+  >
+    {Array.from(profile.name || fallbackName)[0]}
+  </span>
+);
+
+export default ProfileAvatar;
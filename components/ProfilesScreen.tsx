@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { PLAY_MODES, PROFILE_COLORS } from '../constants';
+import { Language } from '../types';
+import { PersistentData, createProfile, deleteProfile, getActiveProfile, loadProfileData, loadProfiles, updateProfile } from '../services/storage';
+import { getTranslation } from '../services/i18n';
+import ProfileAvatar from './ProfileAvatar';
+
+type Translation = ReturnType<typeof getTranslation>;
+
+interface Props {
+  language: Language;
+  t: Translation;
+  /** Called after the active profile changed, so the menu can load its settings. */
+  onSwitch: () => void;
+  onBack: () => void;
+}
+
+/** One line of the comparison table: a label and how to read it off a profile's progress. */
+const COMPARISONS: { label: (t: Translation) => string; value: (data: PersistentData) => number }[] = [
+  { label: t => t.stats_games, value: data => data.stats.gamesPlayed },
+  { label: t => t.profiles_verses, value: data => Object.keys(data.completedVerses).length },
+  ...PLAY_MODES.map(mode => ({
+    label: (t: Translation) => `${t.menu_record} · ${t[`mode_${mode}`]}`,
+    value: (data: PersistentData) => Math.max(...Object.values(data.highScores[mode])),
+  })),
+  { label: t => t.profiles_memorized, value: data => Object.values(data.memorization).filter(r => r.bestAccuracy === 1).length },
+  { label: t => t.profiles_daily_streak, value: data => data.bestDailyStreak },
+  { label: t => t.badges_title, value: data => Object.keys(data.achievements).length },
+];
+
+const ProfilesScreen: React.FC<Props> = ({ language, t, onSwitch, onBack }) => {
+  const [profiles, setProfiles] = useState(() => loadProfiles());
+  const [activeId, setActiveId] = useState(() => getActiveProfile().id);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(PROFILE_COLORS[profiles.length % PROFILE_COLORS.length]);
+
+  const refresh = () => {
+    const next = loadProfiles();
+    setProfiles(next);
+    setActiveId(getActiveProfile().id);
+    setColor(PROFILE_COLORS[next.length % PROFILE_COLORS.length]);
+  };
+
+  const addProfile = () => {
+    if (!name.trim()) return;
+    createProfile(name.trim(), color, language);
+    setName('');
+    refresh();
+    onSwitch();
+  };
+
+  const removeProfile = (id: string) => {
+    deleteProfile(id);
+    refresh();
+    if (id === activeId) onSwitch();
+  };
+
+  const progress = profiles.map(p => loadProfileData(p.id));
+
+  return (
+    <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
+      <header className="flex-none px-6 pt-6 pb-4 border-b border-slate-100 flex items-center justify-between">
+        <h1 className="text-2xl font-black text-sky-500 italic uppercase leading-none">{t.profiles_title}</h1>
+        <button onClick={onBack} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_back}</button>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+        <section className="space-y-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-3">
+              <ProfileAvatar profile={profile} fallbackName={t.profile_default_name} active={profile.id === activeId} />
+              <input
+                defaultValue={profile.name}
+                placeholder={t.profile_default_name}
+                onBlur={e => { updateProfile(profile.id, { name: e.target.value.trim() }); refresh(); }}
+                aria-label={t.profile_name}
+                className="flex-1 min-w-0 bg-slate-50 text-slate-600 py-2 px-3 rounded-2xl font-black text-xs border border-slate-200"
+              />
+              {profiles.length > 1 && (
+                <button onClick={() => removeProfile(profile.id)} className="flex-none text-[10px] font-black text-rose-400 bg-rose-50 border border-rose-100 px-3 py-2 rounded-2xl uppercase">{t.btn_delete}</button>
+              )}
+            </div>
+          ))}
+        </section>
+
+        <section className="bg-slate-50 rounded-3xl border border-slate-100 p-4 space-y-3">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={t.profile_name}
+            className="w-full bg-white text-slate-600 py-2 px-3 rounded-2xl font-black text-xs border border-slate-200"
+          />
+          <div className="flex items-center gap-2">
+            {PROFILE_COLORS.map(c => (
+              <button key={c} onClick={() => setColor(c)} style={{ backgroundColor: c }} aria-label={c} className={`w-7 h-7 rounded-full ${c === color ? 'ring-4 ring-offset-2 ring-slate-200' : ''}`} />
+            ))}
+          </div>
+          <button onClick={addProfile} disabled={!name.trim()} className="w-full bg-sky-500 text-white py-3 rounded-2xl font-black text-xs uppercase tracking-widest active:scale-95 disabled:bg-slate-200">{t.btn_add_profile}</button>
+        </section>
+
+        <section>
+          <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{t.profiles_compare}</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-black">
+              <thead>
+                <tr>
+                  <th />
+                  {profiles.map(profile => (
+                    <th key={profile.id} className="px-2 pb-2">
+                      <div className="flex flex-col items-center gap-1">
+                        <ProfileAvatar profile={profile} fallbackName={t.profile_default_name} />
+                        <span className="text-[9px] text-slate-400 truncate max-w-[4rem]">{profile.name || t.profile_default_name}</span>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARISONS.map(row => {
+                  const values = progress.map(row.value);
+                  const best = Math.max(...values);
+                  return (
+                    <tr key={row.label(t)} className="border-t border-slate-100">
+                      <td className="py-2 pr-2 text-[10px] text-slate-400 uppercase">{row.label(t)}</td>
+                      {values.map((value, i) => (
+                        <td key={profiles[i].id} className={`py-2 px-2 text-center ${value === best && best > 0 ? 'text-sky-500' : 'text-slate-500'}`}>{value}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default ProfilesScreen;
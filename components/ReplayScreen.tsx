@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Replay } from '../types';
+import { EngineState } from '../services/engine';
+import { decodeReplay, encodeReplay, loadSavedReplays, replayStates, saveReplay } from '../services/replay';
+import { beginFrame, drawBoard } from '../services/renderer';
+import { getTranslation } from '../services/i18n';
+
+type Translation = ReturnType<typeof getTranslation>;
+
+const PLAYBACK_INTERVAL_MS = 350;
+
+const ReplayPlayer: React.FC<{ replay: Replay; states: EngineState[]; t: Translation; onClose: () => void }> = ({ replay, states, t, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const last = states.length - 1;
+  const state = states[index];
+
+  useEffect(() => {
+    const draw = () => {
+      if (!canvasRef.current) return;
+      const { ctx, scale } = beginFrame(canvasRef.current, state);
+      drawBoard(ctx, { ...state, activePieceIndex: null, currentPiecePos: { x: 0, y: 0 } }, scale);
+      ctx.restore();
+    };
+    draw();
+    window.addEventListener('resize', draw);
+    return () => window.removeEventListener('resize', draw);
+  }, [state]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= last) { setPlaying(false); return; }
+    const timer = window.setTimeout(() => setIndex(i => Math.min(i + 1, last)), PLAYBACK_INTERVAL_MS);
+    return () => window.clearTimeout(timer);
+  }, [playing, index, last]);
+
+  const exportFile = () => {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `bible-blocks-replay-${replay.recordedAt.slice(0, 10)}-${replay.seed}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyShare = async () => {
+    try {
+      await navigator.clipboard.writeText(encodeReplay(replay));
+      setCopied(true);
+    } catch (e) {
+      setCopied(false);
+    }
+  };
+
+  const control = 'h-10 bg-slate-50 text-slate-500 rounded-2xl border border-slate-200 font-black text-xs active:scale-95';
+
+  return (
+    <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
+      <header className="h-[10dvh] flex-none flex justify-between items-center px-4 border-b border-slate-100">
+        <button onClick={onClose} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_back}</button>
+        <span className="text-[10px] font-black text-slate-400 uppercase">{t.replay_step} {index}/{last}</span>
+        <span className="text-xs font-black text-sky-500">{t.hud_score} {state.score}</span>
+      </header>
+      <main className="flex-1 bg-slate-50 relative overflow-hidden">
+        <canvas ref={canvasRef} className="w-full h-full block" />
+      </main>
+      <footer className="flex-none bg-white px-4 py-3 border-t border-slate-100 space-y-3">
+        <input type="range" min={0} max={last} value={index} onChange={e => { setPlaying(false); setIndex(Number(e.target.value)); }} className="w-full accent-sky-500" aria-label={t.replay_step} />
+        <div className="grid grid-cols-4 gap-2 max-w-lg mx-auto">
+          <button onClick={() => { setPlaying(false); setIndex(i => Math.max(0, i - 1)); }} className={control}>◀</button>
+          <button onClick={() => { if (index >= last) setIndex(0); setPlaying(p => !p); }} className="h-10 col-span-2 bg-sky-500 text-white rounded-2xl font-black text-xs uppercase active:scale-95">{playing ? t.btn_pause : t.btn_play}</button>
+          <button onClick={() => { setPlaying(false); setIndex(i => Math.min(last, i + 1)); }} className={control}>▶</button>
+        </div>
+        <div className="grid grid-cols-2 gap-2 max-w-lg mx-auto">
+          <button onClick={exportFile} className={control}>{t.btn_export}</button>
+          <button onClick={copyShare} className={control}>{copied ? t.replay_copied : t.btn_copy_share}</button>
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+/** Plays back a replay; one that fails to play is reported instead of taking the app down. */
+const ReplayViewer: React.FC<{ replay: Replay; t: Translation; onClose: () => void }> = ({ replay, t, onClose }) => {
+  const playback = useMemo(() => {
+    try {
+      return { states: replayStates(replay) };
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [replay]);
+
+  if (playback.states) return <ReplayPlayer replay={replay} states={playback.states} t={t} onClose={onClose} />;
+  return (
+    <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
+      <header className="h-[10dvh] flex-none flex items-center px-4 border-b border-slate-100">
+        <button onClick={onClose} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_back}</button>
+      </header>
+      <p className="text-center text-xs font-bold text-rose-500 mt-8 px-6">{t.replay_unplayable}: {playback.error}</p>
+    </div>
+  );
+};
+
+interface Props {
+  t: Translation;
+  onBack: () => void;
+}
+
+const ReplayScreen: React.FC<Props> = ({ t, onBack }) => {
+  const [replays, setReplays] = useState<Replay[]>(() => loadSavedReplays());
+  const [selected, setSelected] = useState<Replay | null>(null);
+  const [shareText, setShareText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const importReplay = (input: string) => {
+    try {
+      const replay = decodeReplay(input);
+      saveReplay(replay);
+      setReplays(loadSavedReplays());
+      setError(null);
+      setShareText('');
+      setSelected(replay);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  if (selected) return <ReplayViewer replay={selected} t={t} onClose={() => setSelected(null)} />;
+
+  return (
+    <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
+      <header className="flex-none px-6 pt-6 pb-4 border-b border-slate-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-black text-sky-500 italic uppercase leading-none">{t.replays_title}</h1>
+          <button onClick={onBack} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_back}</button>
+        </div>
+        <div className="flex gap-2">
+          <input value={shareText} onChange={e => setShareText(e.target.value)} placeholder={t.replay_paste} className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-2xl px-3 py-2 text-xs font-bold text-slate-500" />
+          <button onClick={() => importReplay(shareText)} disabled={!shareText.trim()} className="flex-none bg-sky-500 text-white px-3 rounded-2xl font-black text-[10px] uppercase disabled:opacity-40">{t.btn_import_pack}</button>
+          <button onClick={() => fileRef.current?.click()} className="flex-none bg-slate-50 text-slate-400 px-3 rounded-2xl font-black text-[10px] border border-slate-200 uppercase">{t.replay_file}</button>
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={async e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) importReplay(await file.text());
+          }} />
+        </div>
+        {error && <p className="text-[10px] font-bold text-rose-500">{t.replay_import_failed}: {error}</p>}
+      </header>
+      <main className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+        {replays.length === 0 && <p className="text-center text-xs font-bold text-slate-300 mt-8">{t.replays_empty}</p>}
+        {replays.map((replay, i) => (
+          <button key={i} onClick={() => setSelected(replay)} className="w-full bg-slate-50 border border-slate-100 rounded-2xl p-3 flex justify-between items-center active:scale-95">
+            <span className="text-xs font-black text-slate-500">{new Date(replay.recordedAt).toLocaleString()}</span>
+            <span className="text-[10px] font-black text-slate-300">{replay.actions.length} {t.replay_moves}</span>
+            <span className="text-sm font-black text-sky-500">{replay.finalScore ?? '—'}</span>
+          </button>
+        ))}
+      </main>
+    </div>
+  );
+};
+
+export default ReplayScreen;
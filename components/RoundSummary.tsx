@@ -0,0 +1,36 @@
+import React from 'react';
+import { VerseTally } from '../types';
+import { SCORE_KINDS, tallyTotal } from '../services/scoring';
+import { getTranslation } from '../services/i18n';
+
+interface Props {
+  tally: VerseTally;
+  reference: string;
+  t: ReturnType<typeof getTranslation>;
+  onContinue: () => void;
+}
+
+/** Points earned on the verse just cleared, itemized by source. */
+const RoundSummary: React.FC<Props> = ({ tally, reference, t, onContinue }) => (
+  <div className="absolute inset-0 z-30 bg-sky-500/30 backdrop-blur-md flex items-center justify-center p-6">
+    <div className="bg-white w-full max-w-xs rounded-[2.5rem] shadow-2xl border-4 border-sky-500 px-6 py-5 flex flex-col items-center">
+      <span className="text-2xl font-black text-sky-500 uppercase italic leading-none">{t.victory_title}</span>
+      <span className="text-[9px] font-bold text-slate-300 mt-1 mb-4">— {reference} · {tally.moves} {t.summary_moves}</span>
+      <div className="w-full space-y-1 mb-4">
+        {SCORE_KINDS.filter(kind => tally.points[kind] > 0).map(kind => (
+          <div key={kind} className="flex justify-between text-xs font-black">
+            <span className="text-slate-400">{t[`score_${kind}`]}</span>
+            <span className="text-sky-500">+{tally.points[kind]}</span>
+          </div>
+        ))}
+        <div className="flex justify-between text-sm font-black border-t border-slate-100 pt-1">
+          <span className="text-slate-500 uppercase">{t.summary_total}</span>
+          <span className="text-sky-600">+{tallyTotal(tally)}</span>
+        </div>
+      </div>
+      <button onClick={onContinue} className="w-full bg-sky-500 text-white py-3 rounded-2xl font-black text-sm uppercase tracking-widest active:scale-95">{t.btn_continue}</button>
+    </div>
+  </div>
+);
+
+export default RoundSummary;
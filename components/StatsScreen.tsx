@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { GameStats } from '../types';
+import { averageMovesPerVerse, totalPiecesPlaced } from '../services/stats';
+import { getTranslation } from '../services/i18n';
+
+interface Props {
+  lifetime: GameStats;
+  lastGame: GameStats | null;
+  t: ReturnType<typeof getTranslation>;
+  onBack: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const s = String(total % 60).padStart(2, '0');
+  return `${h}:${m}:${s}`;
+};
+
+interface Bar {
+  label: string;
+  value: number;
+}
+
+const BAR_H = 14;
+const LABEL_W = 28;
+
+/** One bar per label, growing to the right; for the pieces, which have names. */
+const HorizontalBars: React.FC<{ bars: Bar[] }> = ({ bars }) => {
+  const max = Math.max(1, ...bars.map(b => b.value));
+  return (
+    <svg viewBox={`0 0 200 ${bars.length * (BAR_H + 4)}`} className="w-full">
+      {bars.map((bar, i) => {
+        const y = i * (BAR_H + 4);
+        const w = ((200 - LABEL_W - 30) * bar.value) / max;
+        return (
+          <g key={bar.label}>
+            <text x={0} y={y + BAR_H - 3} fontSize={9} fontWeight={900} fill="#94a3b8">{bar.label}</text>
+            <rect x={LABEL_W} y={y} width={w} height={BAR_H} rx={4} fill="#0ea5e9" />
+            <text x={LABEL_W + w + 4} y={y + BAR_H - 3} fontSize={9} fontWeight={900} fill="#64748b">{bar.value}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/** One column per board line, numbered from 1; for clears by row or column. */
+const ColumnBars: React.FC<{ values: number[]; color: string }> = ({ values, color }) => {
+  const max = Math.max(1, ...values);
+  const width = 200 / Math.max(1, values.length);
+  return (
+    <svg viewBox="0 0 200 80" className="w-full">
+      {values.map((value, i) => {
+        const h = (60 * value) / max;
+        return (
+          <g key={i}>
+            <rect x={i * width + 1} y={64 - h} width={width - 2} height={h} rx={2} fill={color}>
+              <title>{value}</title>
+            </rect>
+            <text x={i * width + width / 2} y={76} fontSize={8} fontWeight={900} fill="#94a3b8" textAnchor="middle">{i + 1}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const StatsScreen: React.FC<Props> = ({ lifetime, lastGame, t, onBack }) => {
+  const [showLastGame, setShowLastGame] = useState(false);
+  const stats = showLastGame && lastGame ? lastGame : lifetime;
+  const average = averageMovesPerVerse(stats);
+  const pieces: Bar[] = Object.entries(stats.piecesPlaced)
+    .map(([label, value]) => ({ label, value: value ?? 0 }))
+    .filter(bar => bar.value > 0)
+    .sort((a, b) => b.value - a.value);
+  if (stats.powerUpsUsed > 0) pieces.push({ label: '✦', value: stats.powerUpsUsed });
+
+  const tiles: [string, string | number][] = [
+    ...(showLastGame ? [] : [[t.stats_games, stats.gamesPlayed] as [string, number]]),
+    [t.stats_pieces, totalPiecesPlaced(stats)],
+    [t.stats_best_combo, `x${stats.bestCombo}`],
+    [t.stats_verses, stats.versesCompleted],
+    [t.stats_moves_per_verse, average === null ? '–' : average.toFixed(1)],
+    [t.stats_time, formatDuration(stats.timePlayedMs)],
+  ];
+  const tab = (active: boolean) =>
+    `flex-1 py-2 rounded-2xl font-black text-[10px] uppercase tracking-widest border ${active ? 'bg-sky-500 text-white border-sky-500' : 'bg-white text-slate-400 border-slate-200'} disabled:opacity-40`;
+
+  return (
+    <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
+      <header className="flex-none px-6 pt-6 pb-4 border-b border-slate-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-black text-sky-500 italic uppercase leading-none">{t.stats_title}</h1>
+          <button onClick={onBack} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_back}</button>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setShowLastGame(false)} className={tab(!showLastGame)}>{t.stats_lifetime}</button>
+          <button onClick={() => setShowLastGame(true)} disabled={!lastGame} className={tab(showLastGame)}>{t.stats_last_game}</button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+        <section className="grid grid-cols-3 gap-2">
+          {tiles.map(([label, value]) => (
+            <div key={label} className="bg-slate-50 rounded-2xl border border-slate-100 p-3 text-center">
+              <p className="text-lg font-black text-slate-600 leading-none">{value}</p>
+              <p className="text-[8px] font-black text-slate-300 uppercase mt-1 leading-tight">{label}</p>
+            </div>
+          ))}
+        </section>
+        <section>
+          <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{t.stats_pieces_by_type}</h2>
+          {pieces.length > 0 ? <HorizontalBars bars={pieces} /> : <p className="text-xs font-bold text-slate-300">{t.stats_empty}</p>}
+        </section>
+        <section>
+          <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{t.stats_lines_by_row}</h2>
+          {stats.rowsCleared.length > 0 ? <ColumnBars values={stats.rowsCleared} color="#0ea5e9" /> : <p className="text-xs font-bold text-slate-300">{t.stats_empty}</p>}
+        </section>
+        <section>
+          <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{t.stats_lines_by_col}</h2>
+          {stats.colsCleared.length > 0 ? <ColumnBars values={stats.colsCleared} color="#f59e0b" /> : <p className="text-xs font-bold text-slate-300">{t.stats_empty}</p>}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default StatsScreen;
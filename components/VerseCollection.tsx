@@ -0,0 +1,72 @@
+import React from 'react';
+import { Language, Verse, VerseCollection as Collection } from '../types';
+import { getVerseText, groupVersesByBook } from '../services/verses';
+import { getTranslation } from '../services/i18n';
+
+interface Props {
+  verses: Verse[];
+  collection: Collection;
+  language: Language;
+  t: ReturnType<typeof getTranslation>;
+  onBack: () => void;
+}
+
+const VerseCollection: React.FC<Props> = ({ verses, collection, language, t, onBack }) => {
+  const groups = groupVersesByBook(verses, language);
+  const collected = verses.filter(v => collection[v.reference]).length;
+  const progress = Math.round((collected / verses.length) * 100);
+
+  return (
+    <div className="flex-1 flex flex-col h-[100dvh] bg-white overflow-hidden">
+      <header className="flex-none px-6 pt-6 pb-4 border-b border-slate-100">
+        <div className="flex items-center justify-between mb-3">
+          <h1 className="text-2xl font-black text-sky-500 italic uppercase leading-none">{t.collection_title}</h1>
+          <button onClick={onBack} className="text-[10px] font-black text-slate-400 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full uppercase">{t.btn_back}</button>
+        </div>
+        <div className="flex justify-between text-[10px] font-black text-slate-400 uppercase mb-1">
+          <span>{t.collection_progress}</span>
+          <span>{collected}/{verses.length}</span>
+        </div>
+        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-sky-500 rounded-full transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+        {groups.map(group => {
+          const groupCollected = group.verses.filter(({ verse }) => collection[verse.reference]).length;
+          return (
+            <section key={group.book}>
+              <div className="flex justify-between items-baseline mb-2">
+                <h2 className="text-sm font-black text-slate-600">{group.book}</h2>
+                <span className="text-[10px] font-black text-slate-300">{groupCollected}/{group.verses.length}</span>
+              </div>
+              <div className="space-y-2">
+                {group.verses.map(({ verse, index }) => {
+                  const entry = collection[verse.reference];
+                  const { text, reference } = getVerseText(verse, language);
+                  return entry ? (
+                    <div key={index} className="bg-sky-50 border border-sky-100 rounded-2xl p-3">
+                      <p className="text-sm font-bold text-slate-700 leading-relaxed">{text}</p>
+                      <div className="flex justify-between mt-2 text-[9px] font-black text-sky-500 uppercase">
+                        <span>— {reference}</span>
+                        <span>{new Date(entry.firstCompletedAt).toLocaleDateString()} · ×{entry.count}</span>
+                      </div>
+                    </div>
+                  ) : (
+                    <div key={index} className="bg-slate-50 border border-slate-100 rounded-2xl p-3 flex justify-between items-center">
+                      <span className="text-sm font-black text-slate-200 tracking-widest">{'□'.repeat(Math.min(text.length, 12))}</span>
+                      <span className="text-[9px] font-black text-slate-300 uppercase">{reference} · {t.collection_locked}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+};
+
+export default VerseCollection;
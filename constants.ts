@@ -1,94 +1,255 @@
 
-import { Piece, TetrominoType, Verse } from './types';
+import { Achievement, Difficulty, DifficultyPreset, GameMode, Piece, PieceId, PlayMode, PowerUp, Verse } from './types';
 
 export const GRID_SIZE = 10;
 export const BASE_SCORE = 100;
 export const LONG_PRESS_DURATION = 500;
 
-export const TETROMINOES: Record<TetrominoType, Piece> = {
+export const PIECES: Record<PieceId, Piece> = {
+  dot: { type: 'dot', shape: [[1]], color: '#94a3b8' },
+  I2: { type: 'I2', shape: [[1, 1]], color: '#7dd3fc' },
+  I3: { type: 'I3', shape: [[1, 1, 1]], color: '#0ea5e9' },
   I: { type: 'I', shape: [[1, 1, 1, 1]], color: '#38bdf8' },
+  I5: { type: 'I5', shape: [[1, 1, 1, 1, 1]], color: '#0284c7' },
   O: { type: 'O', shape: [[1, 1], [1, 1]], color: '#fbbf24' },
+  O3: { type: 'O3', shape: [[1, 1, 1], [1, 1, 1], [1, 1, 1]], color: '#d97706' },
+  V3: { type: 'V3', shape: [[1, 0], [1, 1]], color: '#2dd4bf' },
   T: { type: 'T', shape: [[0, 1, 0], [1, 1, 1]], color: '#a855f7' },
   S: { type: 'S', shape: [[0, 1, 1], [1, 1, 0]], color: '#4ade80' },
   Z: { type: 'Z', shape: [[1, 1, 0], [0, 1, 1]], color: '#f87171' },
   J: { type: 'J', shape: [[1, 0, 0], [1, 1, 1]], color: '#3b82f6' },
   L: { type: 'L', shape: [[0, 0, 1], [1, 1, 1]], color: '#f97316' },
+  L5: { type: 'L5', shape: [[1, 0, 0, 0], [1, 1, 1, 1]], color: '#ea580c' },
+  P: { type: 'P', shape: [[1, 1], [1, 1], [1, 0]], color: '#ec4899' },
+  U: { type: 'U', shape: [[1, 0, 1], [1, 1, 1]], color: '#8b5cf6' },
+  V5: { type: 'V5', shape: [[1, 0, 0], [1, 0, 0], [1, 1, 1]], color: '#14b8a6' },
+  X: { type: 'X', shape: [[0, 1, 0], [1, 1, 1], [0, 1, 0]], color: '#e11d48' },
+  T5: { type: 'T5', shape: [[1, 1, 1], [0, 1, 0], [0, 1, 0]], color: '#7c3aed' },
 };
 
+export const POWER_UP_PIECES: Record<PowerUp, Piece> = {
+  bomb: { type: 'dot', shape: [[1]], color: '#ef4444', powerUp: 'bomb' },
+  sweeper: { type: 'dot', shape: [[1]], color: '#06b6d4', powerUp: 'sweeper' },
+  lamp: { type: 'dot', shape: [[1]], color: '#facc15', powerUp: 'lamp' },
+};
+
+export const LOCKED_CELL_COLOR = '#64748b';
+
+/** Avatar colors a profile can pick from. */
+export const PROFILE_COLORS = ['#0ea5e9', '#f59e0b', '#10b981', '#f43f5e', '#8b5cf6', '#14b8a6'];
+
+export const TETROMINO_IDS: PieceId[] = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+
+export const PLAY_MODES: PlayMode[] = ['classic', 'timed', 'zen'];
+export const GAME_MODES: GameMode[] = [...PLAY_MODES, 'daily'];
+
+/** Length of a timed run. */
+export const TIMED_MODE_MINUTES = 3;
+
+/** Badges, in the order the badges screen lists them; names and descriptions are in i18n. */
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first_verse', icon: '📖', rule: { kind: 'verses', count: 1 } },
+  { id: 'four_lines', icon: '🧱', rule: { kind: 'lines', count: 4 } },
+  { id: 'combo_10', icon: '🔥', rule: { kind: 'combo', count: 10 } },
+  { id: 'in_order', icon: '🔤', rule: { kind: 'inOrder' } },
+  { id: 'book_philippians', icon: '📜', rule: { kind: 'book', book: '腓立比書' } },
+  { id: 'streak_7', icon: '📅', rule: { kind: 'dailyStreak', days: 7 } },
+  { id: 'verses_25', icon: '🏆', rule: { kind: 'verses', count: 25 } },
+];
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  // A roomy board, mostly small, forgiving pieces and no S/Z
+  easy: {
+    boardSize: 12,
+    traySize: 3,
+    hintLimit: 5,
+    scoreMultiplier: 0.5,
+    lockedCells: 0,
+    pieces: { kind: 'weighted', weights: { dot: 2, I2: 3, I3: 3, V3: 3, O: 3, I: 2, T: 1, J: 1, L: 1 } },
+  },
+  // The classic 10x10 board; every tetromino once per seven draws
+  normal: {
+    boardSize: GRID_SIZE,
+    traySize: 3,
+    hintLimit: 3,
+    scoreMultiplier: 1,
+    lockedCells: 2,
+    pieces: { kind: 'bag', pieces: TETROMINO_IDS },
+  },
+  // A cramped board and the full catalogue, big pieces included
+  hard: {
+    boardSize: 8,
+    traySize: 3,
+    hintLimit: 1,
+    scoreMultiplier: 2,
+    lockedCells: 4,
+    pieces: {
+      kind: 'weighted',
+      weights: { dot: 1, I2: 1, I3: 2, V3: 2, I: 3, O: 3, T: 3, S: 3, Z: 3, J: 3, L: 3, I5: 2, O3: 2, L5: 2, P: 2, U: 2, V5: 2, X: 1, T5: 1 },
+    },
+  },
+};
+
+/** Pairs the Chinese Union Version text with the public-domain King James text. */
+const cuvKjv = (reference: string, zh: string, enReference: string, en: string): Verse => ({
+  reference,
+  translations: {
+    zh: { version: 'CUV', reference, text: zh },
+    en: { version: 'KJV', reference: enReference, text: en },
+  },
+});
+
 export const SAMPLE_VERSES: Verse[] = [
-{ text: "若有人在基督裡，他就是新造的人，舊事已過，都變成新的了。", reference: "哥林多後書 5:17" },
-{ text: "你們不可偷盜，不可欺騙，也不可彼此說謊。", reference: "利未記 19:11" },
-{ text: "神非人，必不致說謊，也非人子，必不致後悔。他說話豈不照著行呢？他發言豈不要成就呢？", reference: "民數記 23:19" },
-{ text: "這律法書不可離開你的口，總要晝夜思想，好使你謹守遵行這書上所寫的一切話。如此，你的道路就可以亨通，凡事順利。", reference: "約書亞記 1:8" },
-{ text: "少年人用甚麼潔淨他的行為呢？是要遵行你的話！", reference: "詩篇 119:9" },
-{ text: "我一心尋求了你；求你不要叫我偏離你的命令。", reference: "詩篇 119:10" },
-{ text: "我將你的話藏在心裡，免得我得罪你。", reference: "詩篇 119:11" },
-{ text: "你要以財物和一切初熟的土產尊榮耶和華。", reference: "箴言 3:9" },
-{ text: "這樣，你的倉房必充滿有餘；你的酒醡有新酒盈溢。", reference: "箴言 3:10" },
-{ text: "堅心倚賴你的，你必保守他十分平安，因為他倚靠你。", reference: "以賽亞書 26:3" },
-{ text: "你不要害怕，因為我與你同在；不要驚惶，因為我是你的神。我必堅固你，我必幫助你；我必用我公義的右手扶持你。", reference: "以賽亞書 41:10" },
-{ text: "我們都如羊走迷；各人偏行己路；耶和華使我們眾人的罪孽都歸在他身上。", reference: "以賽亞書 53:6" },
-{ text: "我們不致消滅，是出於耶和華諸般的慈愛；是因他的憐憫不致斷絕。", reference: "耶利米哀歌 3:22" },
-{ text: "每早晨，這都是新的；你的誠實極其廣大！", reference: "耶利米哀歌 3:23" },
-{ text: "耶穌對他們說：來跟從我，我要叫你們得人如得魚一樣。", reference: "馬太福音 4:19" },
-{ text: "你們的光也當這樣照在人前，叫他們看見你們的好行為，便將榮耀歸給你們在天上的父。", reference: "馬太福音 5:16" },
-{ text: "你們要先求他的國和他的義，這些東西都要加給你們了。", reference: "馬太福音 6:33" },
-{ text: "因為無論在那裡，有兩三個人奉我的名聚會，那裡就有我在他們中間。", reference: "馬太福音 18:20" },
-{ text: "所以，你們要去，使萬民作我的門徒，奉父、子、聖靈的名給他們施洗（或作：給他們施洗，歸於父、子、聖靈的名）。", reference: "馬太福音 28:19" },
-{ text: "凡我所吩咐你們的，都教訓他們遵守，我就常與你們同在，直到世界的末了。", reference: "馬太福音 28:20" },
-{ text: "因為人子來，並不是要受人的服事，乃是要服事人，並且要捨命作多人的贖價。", reference: "馬可福音 10:45" },
-{ text: "耶穌又對眾人說：若有人要跟從我，就當捨己，天天背起他的十字架來跟從我。", reference: "路加福音 9:23" },
-{ text: "凡接待他的，就是信他名的人，他就賜他們權柄，作神的兒女。", reference: "約翰福音 1:12" },
-{ text: "我實實在在的告訴你們，那聽我話、又信差我來者的，就有永生；不至於定罪，是已經出死入生了。", reference: "約翰福音 5:24" },
-{ text: "我賜給你們一條新命令，乃是叫你們彼此相愛；我怎樣愛你們，你們也要怎樣相愛。", reference: "約翰福音 13:34" },
-{ text: "你們若有彼此相愛的心，眾人因此就認出你們是我的門徒了。", reference: "約翰福音 13:35" },
-{ text: "有了我的命令又遵守的，這人就是愛我的；愛我的必蒙我父愛他，我也要愛他，並且要向他顯現。", reference: "約翰福音 14:21" },
-{ text: "你們若常在我裡面，我的話也常在你們裡面，凡你們所願意的，祈求，就給你們成就。", reference: "約翰福音 15:7" },
-{ text: "但聖靈降臨在你們身上，你們就必得著能力，並要在耶路撒冷、猶太全地，和撒瑪利亞，直到地極，作我的見證。", reference: "使徒行傳 1:8" },
-{ text: "我因此自己勉勵，對神對人，常存無虧的良心。", reference: "使徒行傳 24:16" },
-{ text: "我不以福音為恥；這福音本是神的大能，要救一切相信的，先是猶太人，後是希利尼人。", reference: "羅馬書 1:16" },
-{ text: "因為世人都犯了罪，虧缺了神的榮耀；", reference: "羅馬書 3:23" },
-{ text: "並且仰望神的應許，總沒有因不信心裡起疑惑，反倒因信心裡得堅固，將榮耀歸給神，", reference: "羅馬書 4:20" },
-{ text: "且滿心相信神所應許的必能做成。", reference: "羅馬書 4:21" },
-{ text: "惟有基督在我們還作罪人的時候為我們死，神的愛就在此向我們顯明了。", reference: "羅馬書 5:8" },
-{ text: "因為罪的工價乃是死；惟有神的恩賜，在我們的主基督耶穌裡，乃是永生。", reference: "羅馬書 6:23" },
-{ text: "神既不愛惜自己的兒子，為我們眾人捨了，豈不也把萬物和他一同白白的賜給我們麼？", reference: "羅馬書 8:32" },
-{ text: "所以弟兄們，我以神的慈悲勸你們，將身體獻上，當作活祭，是聖潔的，是神所喜悅的；你們如此事奉乃是理所當然的。", reference: "羅馬書 12:1" },
-{ text: "不要效法這個世界，只要心意更新而變化，叫你們察驗何為神的善良、純全、可喜悅的旨意。", reference: "羅馬書 12:2" },
-{ text: "我們所領受的，並不是世上的靈，乃是從神來的靈，叫我們能知道神開恩賜給我們的事。", reference: "哥林多前書 2:12" },
-{ text: "豈不知你們是神的殿，神的靈住在你們裡頭麼？", reference: "哥林多前書 3:16" },
-{ text: "所以，我親愛的弟兄們，你們務要堅固，不可搖動，常常竭力多做主工；因為知道，你們的勞苦在主裡面不是徒然的。", reference: "哥林多前書 15:58" },
-{ text: "我們原不是傳自己，乃是傳基督耶穌為主，並且自己因耶穌作你們的僕人。", reference: "哥林多後書 4:5" },
-{ text: "少種的少收，多種的多收，這話是真的。", reference: "哥林多後書 9:6" },
-{ text: "各人要隨本心所酌定的，不要作難，不要勉強，因為捐得樂意的人是神所喜愛的。", reference: "哥林多後書 9:7" },
-{ text: "我已經與基督同釘十字架，現在活著的不再是我，乃是基督在我裡面活著；並且我如今在肉身活著，是因信神的兒子而活；他是愛我，為我捨己。", reference: "加拉太書 2:20" },
-{ text: "我們行善，不可喪志；若不灰心，到了時候就要收成。", reference: "加拉太書 6:9" },
-{ text: "所以，有了機會就當向眾人行善，向信徒一家的人更當這樣。", reference: "加拉太書 6:10" },
-{ text: "你們得救是本乎恩，也因著信；這並不是出於自己，乃是神所賜的；", reference: "以弗所書 2:8" },
-{ text: "也不是出於行為，免得有人自誇。", reference: "以弗所書 2:9" },
-{ text: "至於淫亂並一切污穢，或是貪婪，在你們中間連題都不可，方合聖徒的體統。", reference: "以弗所書 5:3" },
-{ text: "凡事不可結黨，不可貪圖虛浮的榮耀；只要存心謙卑，各人看別人比自己強。", reference: "腓立比書 2:3" },
-{ text: "各人不要單顧自己的事，也要顧別人的事。", reference: "腓立比書 2:4" },
-{ text: "應當一無罣慮，只要凡事藉著禱告、祈求，和感謝，將你們所要的告訴神。", reference: "腓立比書 4:6" },
-{ text: "神所賜、出人意外的平安必在基督耶穌裡保守你們的心懷意念。", reference: "腓立比書 4:7" },
-{ text: "我靠著那加給我力量的，凡事都能做。", reference: "腓立比書 4:13" },
-{ text: "我的神必照他榮耀的豐富，在基督耶穌裡，使你們一切所需用的都充足。", reference: "腓立比書 4:19" },
-{ text: "聖經都是神所默示的（或作：凡神所默示的聖經），於教訓、督責、使人歸正、教導人學義都是有益的，", reference: "提摩太後書 3:16" },
-{ text: "他便救了我們；並不是因我們自己所行的義，乃是照他的憐憫，藉著重生的洗和聖靈的更新。", reference: "提多書 3:5" },
-{ text: "他自己既然被試探而受苦，就能搭救被試探的人。", reference: "希伯來書 2:18" },
-{ text: "按著定命，人人都有一死，死後且有審判。", reference: "希伯來書 9:27" },
-{ text: "又要彼此相顧，激發愛心，勉勵行善。", reference: "希伯來書 10:24" },
-{ text: "你們不可停止聚會，好像那些停止慣了的人，倒要彼此勸勉，既知道（原文是看見）那日子臨近，就更當如此。", reference: "希伯來書 10:25" },
-{ text: "人非有信，就不能得神的喜悅；因為到神面前來的人必須信有神，且信他賞賜那尋求他的人。", reference: "希伯來書 11:6" },
-{ text: "那忍受罪人這樣頂撞的，你們要思想，免得疲倦灰心。", reference: "希伯來書 12:3" },
-{ text: "親愛的弟兄阿，你們是客旅，是寄居的。我勸你們要禁戒肉體的私慾；這私慾是與靈魂爭戰的。", reference: "彼得前書 2:11" },
-{ text: "因基督也曾一次為罪受苦（有古卷作：受死），就是義的代替不義的，為要引我們到神面前。按著肉體說，他被治死；按著靈性說，他復活了。", reference: "彼得前書 3:18" },
-{ text: "你們年幼的，也要順服年長的。就是你們眾人也都要以謙卑束腰，彼此順服；因為神阻擋驕傲的人，賜恩給謙卑的人。", reference: "彼得前書 5:5" },
-{ text: "所以，你們要自卑，服在神大能的手下，到了時候他必叫你們升高。", reference: "彼得前書 5:6" },
-{ text: "你們要將一切的憂慮卸給神，因為他顧念你們。", reference: "彼得前書 5:7" },
-{ text: "不要愛世界和世界上的事。人若愛世界，愛父的心就不在他裡面了。", reference: "約翰一書 2:15" },
-{ text: "因為凡世界上的事，就像肉體的情慾，眼目的情慾，並今生的驕傲，都不是從父來的，乃是從世界來的。", reference: "約翰一書 2:16" },
-{ text: "小子們哪，我們相愛，不要只在言語和舌頭上，總要在行為和誠實上。", reference: "約翰一書 3:18" },
-{ text: "我將這些話寫給你們信奉神兒子之名的人，要叫你們知道自己有永生。", reference: "約翰一書 5:13" },
-{ text: "看哪，我站在門外叩門，若有聽見我聲音就開門的，我要進到他那裡去，我與他他與我一同坐席。", reference: "啟示錄 3:20" },
+cuvKjv("哥林多後書 5:17", "若有人在基督裡，他就是新造的人，舊事已過，都變成新的了。",
+  "2 Corinthians 5:17", "Therefore if any man be in Christ, he is a new creature: old things are passed away; behold, all things are become new."),
+cuvKjv("利未記 19:11", "你們不可偷盜，不可欺騙，也不可彼此說謊。",
+  "Leviticus 19:11", "Ye shall not steal, neither deal falsely, neither lie one to another."),
+cuvKjv("民數記 23:19", "神非人，必不致說謊，也非人子，必不致後悔。他說話豈不照著行呢？他發言豈不要成就呢？",
+  "Numbers 23:19", "God is not a man, that he should lie; neither the son of man, that he should repent: hath he said, and shall he not do it? or hath he spoken, and shall he not make it good?"),
+cuvKjv("約書亞記 1:8", "這律法書不可離開你的口，總要晝夜思想，好使你謹守遵行這書上所寫的一切話。如此，你的道路就可以亨通，凡事順利。",
+  "Joshua 1:8", "This book of the law shall not depart out of thy mouth; but thou shalt meditate therein day and night, that thou mayest observe to do according to all that is written therein: for then thou shalt make thy way prosperous, and then thou shalt have good success."),
+cuvKjv("詩篇 119:9", "少年人用甚麼潔淨他的行為呢？是要遵行你的話！",
+  "Psalm 119:9", "Wherewithal shall a young man cleanse his way? by taking heed thereto according to thy word."),
+cuvKjv("詩篇 119:10", "我一心尋求了你；求你不要叫我偏離你的命令。",
+  "Psalm 119:10", "With my whole heart have I sought thee: O let me not wander from thy commandments."),
+cuvKjv("詩篇 119:11", "我將你的話藏在心裡，免得我得罪你。",
+  "Psalm 119:11", "Thy word have I hid in mine heart, that I might not sin against thee."),
+cuvKjv("箴言 3:9", "你要以財物和一切初熟的土產尊榮耶和華。",
+  "Proverbs 3:9", "Honour the LORD with thy substance, and with the firstfruits of all thine increase:"),
+cuvKjv("箴言 3:10", "這樣，你的倉房必充滿有餘；你的酒醡有新酒盈溢。",
+  "Proverbs 3:10", "So shall thy barns be filled with plenty, and thy presses shall burst out with new wine."),
+cuvKjv("以賽亞書 26:3", "堅心倚賴你的，你必保守他十分平安，因為他倚靠你。",
+  "Isaiah 26:3", "Thou wilt keep him in perfect peace, whose mind is stayed on thee: because he trusteth in thee."),
+cuvKjv("以賽亞書 41:10", "你不要害怕，因為我與你同在；不要驚惶，因為我是你的神。我必堅固你，我必幫助你；我必用我公義的右手扶持你。",
+  "Isaiah 41:10", "Fear thou not; for I am with thee: be not dismayed; for I am thy God: I will strengthen thee; yea, I will help thee; yea, I will uphold thee with the right hand of my righteousness."),
+cuvKjv("以賽亞書 53:6", "我們都如羊走迷；各人偏行己路；耶和華使我們眾人的罪孽都歸在他身上。",
+  "Isaiah 53:6", "All we like sheep have gone astray; we have turned every one to his own way; and the LORD hath laid on him the iniquity of us all."),
+cuvKjv("耶利米哀歌 3:22", "我們不致消滅，是出於耶和華諸般的慈愛；是因他的憐憫不致斷絕。",
+  "Lamentations 3:22", "It is of the LORD's mercies that we are not consumed, because his compassions fail not."),
+cuvKjv("耶利米哀歌 3:23", "每早晨，這都是新的；你的誠實極其廣大！",
+  "Lamentations 3:23", "They are new every morning: great is thy faithfulness."),
+cuvKjv("馬太福音 4:19", "耶穌對他們說：來跟從我，我要叫你們得人如得魚一樣。",
+  "Matthew 4:19", "And he saith unto them, Follow me, and I will make you fishers of men."),
+cuvKjv("馬太福音 5:16", "你們的光也當這樣照在人前，叫他們看見你們的好行為，便將榮耀歸給你們在天上的父。",
+  "Matthew 5:16", "Let your light so shine before men, that they may see your good works, and glorify your Father which is in heaven."),
+cuvKjv("馬太福音 6:33", "你們要先求他的國和他的義，這些東西都要加給你們了。",
+  "Matthew 6:33", "But seek ye first the kingdom of God, and his righteousness; and all these things shall be added unto you."),
+cuvKjv("馬太福音 18:20", "因為無論在那裡，有兩三個人奉我的名聚會，那裡就有我在他們中間。",
+  "Matthew 18:20", "For where two or three are gathered together in my name, there am I in the midst of them."),
+cuvKjv("馬太福音 28:19", "所以，你們要去，使萬民作我的門徒，奉父、子、聖靈的名給他們施洗（或作：給他們施洗，歸於父、子、聖靈的名）。",
+  "Matthew 28:19", "Go ye therefore, and teach all nations, baptizing them in the name of the Father, and of the Son, and of the Holy Ghost:"),
+cuvKjv("馬太福音 28:20", "凡我所吩咐你們的，都教訓他們遵守，我就常與你們同在，直到世界的末了。",
+  "Matthew 28:20", "Teaching them to observe all things whatsoever I have commanded you: and, lo, I am with you alway, even unto the end of the world. Amen."),
+cuvKjv("馬可福音 10:45", "因為人子來，並不是要受人的服事，乃是要服事人，並且要捨命作多人的贖價。",
+  "Mark 10:45", "For even the Son of man came not to be ministered unto, but to minister, and to give his life a ransom for many."),
+cuvKjv("路加福音 9:23", "耶穌又對眾人說：若有人要跟從我，就當捨己，天天背起他的十字架來跟從我。",
+  "Luke 9:23", "And he said to them all, If any man will come after me, let him deny himself, and take up his cross daily, and follow me."),
+cuvKjv("約翰福音 1:12", "凡接待他的，就是信他名的人，他就賜他們權柄，作神的兒女。",
+  "John 1:12", "But as many as received him, to them gave he power to become the sons of God, even to them that believe on his name:"),
+cuvKjv("約翰福音 5:24", "我實實在在的告訴你們，那聽我話、又信差我來者的，就有永生；不至於定罪，是已經出死入生了。",
+  "John 5:24", "Verily, verily, I say unto you, He that heareth my word, and believeth on him that sent me, hath everlasting life, and shall not come into condemnation; but is passed from death unto life."),
+cuvKjv("約翰福音 13:34", "我賜給你們一條新命令，乃是叫你們彼此相愛；我怎樣愛你們，你們也要怎樣相愛。",
+  "John 13:34", "A new commandment I give unto you, That ye love one another; as I have loved you, that ye also love one another."),
+cuvKjv("約翰福音 13:35", "你們若有彼此相愛的心，眾人因此就認出你們是我的門徒了。",
+  "John 13:35", "By this shall all men know that ye are my disciples, if ye have love one to another."),
+cuvKjv("約翰福音 14:21", "有了我的命令又遵守的，這人就是愛我的；愛我的必蒙我父愛他，我也要愛他，並且要向他顯現。",
+  "John 14:21", "He that hath my commandments, and keepeth them, he it is that loveth me: and he that loveth me shall be loved of my Father, and I will love him, and will manifest myself to him."),
+cuvKjv("約翰福音 15:7", "你們若常在我裡面，我的話也常在你們裡面，凡你們所願意的，祈求，就給你們成就。",
+  "John 15:7", "If ye abide in me, and my words abide in you, ye shall ask what ye will, and it shall be done unto you."),
+cuvKjv("使徒行傳 1:8", "但聖靈降臨在你們身上，你們就必得著能力，並要在耶路撒冷、猶太全地，和撒瑪利亞，直到地極，作我的見證。",
+  "Acts 1:8", "But ye shall receive power, after that the Holy Ghost is come upon you: and ye shall be witnesses unto me both in Jerusalem, and in all Judaea, and in Samaria, and unto the uttermost part of the earth."),
+cuvKjv("使徒行傳 24:16", "我因此自己勉勵，對神對人，常存無虧的良心。",
+  "Acts 24:16", "And herein do I exercise myself, to have always a conscience void of offence toward God, and toward men."),
+cuvKjv("羅馬書 1:16", "我不以福音為恥；這福音本是神的大能，要救一切相信的，先是猶太人，後是希利尼人。",
+  "Romans 1:16", "For I am not ashamed of the gospel of Christ: for it is the power of God unto salvation to every one that believeth; to the Jew first, and also to the Greek."),
+cuvKjv("羅馬書 3:23", "因為世人都犯了罪，虧缺了神的榮耀；",
+  "Romans 3:23", "For all have sinned, and come short of the glory of God;"),
+cuvKjv("羅馬書 4:20", "並且仰望神的應許，總沒有因不信心裡起疑惑，反倒因信心裡得堅固，將榮耀歸給神，",
+  "Romans 4:20", "He staggered not at the promise of God through unbelief; but was strong in faith, giving glory to God;"),
+cuvKjv("羅馬書 4:21", "且滿心相信神所應許的必能做成。",
+  "Romans 4:21", "And being fully persuaded that, what he had promised, he was able also to perform."),
+cuvKjv("羅馬書 5:8", "惟有基督在我們還作罪人的時候為我們死，神的愛就在此向我們顯明了。",
+  "Romans 5:8", "But God commendeth his love toward us, in that, while we were yet sinners, Christ died for us."),
+cuvKjv("羅馬書 6:23", "因為罪的工價乃是死；惟有神的恩賜，在我們的主基督耶穌裡，乃是永生。",
+  "Romans 6:23", "For the wages of sin is death; but the gift of God is eternal life through Jesus Christ our Lord."),
+cuvKjv("羅馬書 8:32", "神既不愛惜自己的兒子，為我們眾人捨了，豈不也把萬物和他一同白白的賜給我們麼？",
+  "Romans 8:32", "He that spared not his own Son, but delivered him up for us all, how shall he not with him also freely give us all things?"),
+cuvKjv("羅馬書 12:1", "所以弟兄們，我以神的慈悲勸你們，將身體獻上，當作活祭，是聖潔的，是神所喜悅的；你們如此事奉乃是理所當然的。",
+  "Romans 12:1", "I beseech you therefore, brethren, by the mercies of God, that ye present your bodies a living sacrifice, holy, acceptable unto God, which is your reasonable service."),
+cuvKjv("羅馬書 12:2", "不要效法這個世界，只要心意更新而變化，叫你們察驗何為神的善良、純全、可喜悅的旨意。",
+  "Romans 12:2", "And be not conformed to this world: but be ye transformed by the renewing of your mind, that ye may prove what is that good, and acceptable, and perfect, will of God."),
+cuvKjv("哥林多前書 2:12", "我們所領受的，並不是世上的靈，乃是從神來的靈，叫我們能知道神開恩賜給我們的事。",
+  "1 Corinthians 2:12", "Now we have received, not the spirit of the world, but the spirit which is of God; that we might know the things that are freely given to us of God."),
+cuvKjv("哥林多前書 3:16", "豈不知你們是神的殿，神的靈住在你們裡頭麼？",
+  "1 Corinthians 3:16", "Know ye not that ye are the temple of God, and that the Spirit of God dwelleth in you?"),
+cuvKjv("哥林多前書 15:58", "所以，我親愛的弟兄們，你們務要堅固，不可搖動，常常竭力多做主工；因為知道，你們的勞苦在主裡面不是徒然的。",
+  "1 Corinthians 15:58", "Therefore, my beloved brethren, be ye stedfast, unmoveable, always abounding in the work of the Lord, forasmuch as ye know that your labour is not in vain in the Lord."),
+cuvKjv("哥林多後書 4:5", "我們原不是傳自己，乃是傳基督耶穌為主，並且自己因耶穌作你們的僕人。",
+  "2 Corinthians 4:5", "For we preach not ourselves, but Christ Jesus the Lord; and ourselves your servants for Jesus' sake."),
+cuvKjv("哥林多後書 9:6", "少種的少收，多種的多收，這話是真的。",
+  "2 Corinthians 9:6", "But this I say, He which soweth sparingly shall reap also sparingly; and he which soweth bountifully shall reap also bountifully."),
+cuvKjv("哥林多後書 9:7", "各人要隨本心所酌定的，不要作難，不要勉強，因為捐得樂意的人是神所喜愛的。",
+  "2 Corinthians 9:7", "Every man according as he purposeth in his heart, so let him give; not grudgingly, or of necessity: for God loveth a cheerful giver."),
+cuvKjv("加拉太書 2:20", "我已經與基督同釘十字架，現在活著的不再是我，乃是基督在我裡面活著；並且我如今在肉身活著，是因信神的兒子而活；他是愛我，為我捨己。",
+  "Galatians 2:20", "I am crucified with Christ: nevertheless I live; yet not I, but Christ liveth in me: and the life which I now live in the flesh I live by the faith of the Son of God, who loved me, and gave himself for me."),
+cuvKjv("加拉太書 6:9", "我們行善，不可喪志；若不灰心，到了時候就要收成。",
+  "Galatians 6:9", "And let us not be weary in well doing: for in due season we shall reap, if we faint not."),
+cuvKjv("加拉太書 6:10", "所以，有了機會就當向眾人行善，向信徒一家的人更當這樣。",
+  "Galatians 6:10", "As we have therefore opportunity, let us do good unto all men, especially unto them who are of the household of faith."),
+cuvKjv("以弗所書 2:8", "你們得救是本乎恩，也因著信；這並不是出於自己，乃是神所賜的；",
+  "Ephesians 2:8", "For by grace are ye saved through faith; and that not of yourselves: it is the gift of God:"),
+cuvKjv("以弗所書 2:9", "也不是出於行為，免得有人自誇。",
+  "Ephesians 2:9", "Not of works, lest any man should boast."),
+cuvKjv("以弗所書 5:3", "至於淫亂並一切污穢，或是貪婪，在你們中間連題都不可，方合聖徒的體統。",
+  "Ephesians 5:3", "But fornication, and all uncleanness, or covetousness, let it not be once named among you, as becometh saints;"),
+cuvKjv("腓立比書 2:3", "凡事不可結黨，不可貪圖虛浮的榮耀；只要存心謙卑，各人看別人比自己強。",
+  "Philippians 2:3", "Let nothing be done through strife or vainglory; but in lowliness of mind let each esteem other better than themselves."),
+cuvKjv("腓立比書 2:4", "各人不要單顧自己的事，也要顧別人的事。",
+  "Philippians 2:4", "Look not every man on his own things, but every man also on the things of others."),
+cuvKjv("腓立比書 4:6", "應當一無罣慮，只要凡事藉著禱告、祈求，和感謝，將你們所要的告訴神。",
+  "Philippians 4:6", "Be careful for nothing; but in every thing by prayer and supplication with thanksgiving let your requests be made known unto God."),
+cuvKjv("腓立比書 4:7", "神所賜、出人意外的平安必在基督耶穌裡保守你們的心懷意念。",
+  "Philippians 4:7", "And the peace of God, which passeth all understanding, shall keep your hearts and minds through Christ Jesus."),
+cuvKjv("腓立比書 4:13", "我靠著那加給我力量的，凡事都能做。",
+  "Philippians 4:13", "I can do all things through Christ which strengtheneth me."),
+cuvKjv("腓立比書 4:19", "我的神必照他榮耀的豐富，在基督耶穌裡，使你們一切所需用的都充足。",
+  "Philippians 4:19", "But my God shall supply all your need according to his riches in glory by Christ Jesus."),
+cuvKjv("提摩太後書 3:16", "聖經都是神所默示的（或作：凡神所默示的聖經），於教訓、督責、使人歸正、教導人學義都是有益的，",
+  "2 Timothy 3:16", "All scripture is given by inspiration of God, and is profitable for doctrine, for reproof, for correction, for instruction in righteousness:"),
+cuvKjv("提多書 3:5", "他便救了我們；並不是因我們自己所行的義，乃是照他的憐憫，藉著重生的洗和聖靈的更新。",
+  "Titus 3:5", "Not by works of righteousness which we have done, but according to his mercy he saved us, by the washing of regeneration, and renewing of the Holy Ghost;"),
+cuvKjv("希伯來書 2:18", "他自己既然被試探而受苦，就能搭救被試探的人。",
+  "Hebrews 2:18", "For in that he himself hath suffered being tempted, he is able to succour them that are tempted."),
+cuvKjv("希伯來書 9:27", "按著定命，人人都有一死，死後且有審判。",
+  "Hebrews 9:27", "And as it is appointed unto men once to die, but after this the judgment:"),
+cuvKjv("希伯來書 10:24", "又要彼此相顧，激發愛心，勉勵行善。",
+  "Hebrews 10:24", "And let us consider one another to provoke unto love and to good works:"),
+cuvKjv("希伯來書 10:25", "你們不可停止聚會，好像那些停止慣了的人，倒要彼此勸勉，既知道（原文是看見）那日子臨近，就更當如此。",
+  "Hebrews 10:25", "Not forsaking the assembling of ourselves together, as the manner of some is; but exhorting one another: and so much the more, as ye see the day approaching."),
+cuvKjv("希伯來書 11:6", "人非有信，就不能得神的喜悅；因為到神面前來的人必須信有神，且信他賞賜那尋求他的人。",
+  "Hebrews 11:6", "But without faith it is impossible to please him: for he that cometh to God must believe that he is, and that he is a rewarder of them that diligently seek him."),
+cuvKjv("希伯來書 12:3", "那忍受罪人這樣頂撞的，你們要思想，免得疲倦灰心。",
+  "Hebrews 12:3", "For consider him that endured such contradiction of sinners against himself, lest ye be wearied and faint in your minds."),
+cuvKjv("彼得前書 2:11", "親愛的弟兄阿，你們是客旅，是寄居的。我勸你們要禁戒肉體的私慾；這私慾是與靈魂爭戰的。",
+  "1 Peter 2:11", "Dearly beloved, I beseech you as strangers and pilgrims, abstain from fleshly lusts, which war against the soul;"),
+cuvKjv("彼得前書 3:18", "因基督也曾一次為罪受苦（有古卷作：受死），就是義的代替不義的，為要引我們到神面前。按著肉體說，他被治死；按著靈性說，他復活了。",
+  "1 Peter 3:18", "For Christ also hath once suffered for sins, the just for the unjust, that he might bring us to God, being put to death in the flesh, but quickened by the Spirit:"),
+cuvKjv("彼得前書 5:5", "你們年幼的，也要順服年長的。就是你們眾人也都要以謙卑束腰，彼此順服；因為神阻擋驕傲的人，賜恩給謙卑的人。",
+  "1 Peter 5:5", "Likewise, ye younger, submit yourselves unto the elder. Yea, all of you be subject one to another, and be clothed with humility: for God resisteth the proud, and giveth grace to the humble."),
+cuvKjv("彼得前書 5:6", "所以，你們要自卑，服在神大能的手下，到了時候他必叫你們升高。",
+  "1 Peter 5:6", "Humble yourselves therefore under the mighty hand of God, that he may exalt you in due time:"),
+cuvKjv("彼得前書 5:7", "你們要將一切的憂慮卸給神，因為他顧念你們。",
+  "1 Peter 5:7", "Casting all your care upon him; for he careth for you."),
+cuvKjv("約翰一書 2:15", "不要愛世界和世界上的事。人若愛世界，愛父的心就不在他裡面了。",
+  "1 John 2:15", "Love not the world, neither the things that are in the world. If any man love the world, the love of the Father is not in him."),
+cuvKjv("約翰一書 2:16", "因為凡世界上的事，就像肉體的情慾，眼目的情慾，並今生的驕傲，都不是從父來的，乃是從世界來的。",
+  "1 John 2:16", "For all that is in the world, the lust of the flesh, and the lust of the eyes, and the pride of life, is not of the Father, but is of the world."),
+cuvKjv("約翰一書 3:18", "小子們哪，我們相愛，不要只在言語和舌頭上，總要在行為和誠實上。",
+  "1 John 3:18", "My little children, let us not love in word, neither in tongue; but in deed and in truth."),
+cuvKjv("約翰一書 5:13", "我將這些話寫給你們信奉神兒子之名的人，要叫你們知道自己有永生。",
+  "1 John 5:13", "These things have I written unto you that believe on the name of the Son of God; that ye may know that ye have eternal life, and that ye may believe on the name of the Son of God."),
+cuvKjv("啟示錄 3:20", "看哪，我站在門外叩門，若有聽見我聲音就開門的，我要進到他那裡去，我與他他與我一同坐席。",
+  "Revelation 3:20", "Behold, I stand at the door, and knock: if any man hear my voice, and open the door, I will come in to him, and will sup with him, and he with me."),
 ];
@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initStorage } from './services/storage';
+import { createDefaultBackend } from './services/storageBackends';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +11,12 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Progress is read into memory before the first render; if storage cannot be opened the game still runs, unsaved
+createDefaultBackend()
+  .then(initStorage)
+  .catch(e => console.error('Storage could not be opened', e))
+  .finally(() => root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  ));
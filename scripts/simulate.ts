@@ -0,0 +1,72 @@
+/**
+ * Batch simulation for balance testing: plays seeded games with a bot and
+ * prints score, verse and game-over statistics. Runs fully offline.
+ *
+ *   npm run simulate -- --games 1000 --bot lookahead --difficulty hard --json
+ */
+import { parseArgs } from 'node:util';
+import { Difficulty, Language } from '../types';
+import { BOTS } from '../services/bots';
+import { runSimulation } from '../services/simulation';
+import { BUILT_IN_PACKS, DEFAULT_PACK_ID } from '../services/versePacks';
+import { DIFFICULTIES } from '../constants';
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '200' },
+    bot: { type: 'string', default: 'greedy' },
+    pack: { type: 'string', default: DEFAULT_PACK_ID },
+    lang: { type: 'string', default: 'zh' },
+    difficulty: { type: 'string', default: 'normal' },
+    seed: { type: 'string', default: '1' },
+    'max-moves': { type: 'string', default: '2000' },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const games = Number(values.games);
+const firstSeed = Number(values.seed);
+const maxMoves = Number(values['max-moves']);
+if (!Number.isInteger(games) || games < 1) fail(`--games must be a positive integer`);
+if (!Number.isInteger(firstSeed)) fail(`--seed must be an integer`);
+if (!Number.isInteger(maxMoves) || maxMoves < 1) fail(`--max-moves must be a positive integer`);
+const makeBot = BOTS[values.bot] ?? fail(`Unknown bot "${values.bot}", expected one of: ${Object.keys(BOTS).join(', ')}`);
+if (!BUILT_IN_PACKS.some(p => p.id === values.pack)) fail(`Unknown pack "${values.pack}"`);
+if (values.lang !== 'en' && values.lang !== 'zh') fail(`--lang must be "en" or "zh"`);
+if (!DIFFICULTIES.includes(values.difficulty as Difficulty)) fail(`--difficulty must be one of: ${DIFFICULTIES.join(', ')}`);
+
+const summary = runSimulation(
+  makeBot(),
+  { games, firstSeed, maxMoves, packId: values.pack, language: values.lang as Language, difficulty: values.difficulty as Difficulty },
+  (_, played) => {
+    if (!values.json && process.stderr.isTTY) process.stderr.write(`\r${played}/${games}`);
+  }
+);
+if (!values.json && process.stderr.isTTY) process.stderr.write('\n');
+
+if (values.json) {
+  console.log(JSON.stringify(summary, null, 2));
+} else {
+  const pct = (n: number) => `${((n / summary.games) * 100).toFixed(1)}%`;
+  console.log(`Bot: ${summary.bot} · pack: ${values.pack} (${values.lang}) · ${values.difficulty} · games: ${summary.games}`);
+  console.log(`Average score:            ${summary.averageScore.toFixed(1)}`);
+  console.log(`Average moves:            ${summary.averageMoves.toFixed(1)}`);
+  console.log(`Verses completed / game:  ${summary.averageVersesCompleted.toFixed(2)}`);
+  console.log(`Reshuffles / game:        ${summary.averageReshuffles.toFixed(2)}`);
+  console.log(`Hit the move limit:       ${summary.moveLimitReached} (${pct(summary.moveLimitReached)})`);
+  console.log('\nVerses completed per game:');
+  Object.entries(summary.versesCompletedDistribution).forEach(([n, count]) => console.log(`  ${n.padStart(3)}: ${count} (${pct(count)})`));
+  console.log('\nGame over by move count:');
+  Object.entries(summary.gameOverByMoves)
+    .sort(([a], [b]) => parseInt(a) - parseInt(b))
+    .forEach(([range, count]) => console.log(`  ${range.padStart(9)}: ${count} (${pct(count)})`));
+  console.log(`\nNever finished (${summary.neverFinished.length}):`);
+  summary.verseStats
+    .filter(s => s.completed === 0)
+    .forEach(s => console.log(`  ${s.reference} · ended ${s.endedOn} games · ${(s.averageProgress * 100).toFixed(0)}% collected on average`));
+}
@@ -0,0 +1,35 @@
+import { ACHIEVEMENTS } from '../constants';
+import { Achievement, AchievementRule } from '../types';
+import { GameEvent } from './engine';
+import { PersistentData } from './storage';
+import { DEFAULT_PACK_ID, getPackVerses } from './versePacks';
+import { getVerseBook } from './verses';
+
+/** What achievements are checked against: the events of the move just played, if any, and the saved progress. */
+export interface AchievementCheck {
+  events: GameEvent[];
+  data: PersistentData;
+}
+
+const isMet = (rule: AchievementRule, { events, data }: AchievementCheck): boolean => {
+  switch (rule.kind) {
+    case 'lines':
+      return events.some(ev => ev.type === 'linesCleared' && ev.rows.length + ev.cols.length >= rule.count);
+    case 'combo':
+      return events.some(ev => ev.type === 'linesCleared' && ev.combo >= rule.count);
+    case 'inOrder':
+      return events.some(ev => ev.type === 'verseCompleted' && ev.inOrder);
+    case 'verses':
+      return Object.keys(data.completedVerses).length >= rule.count;
+    case 'book': {
+      const verses = getPackVerses(DEFAULT_PACK_ID).filter(v => getVerseBook(v.reference) === rule.book);
+      return verses.length > 0 && verses.every(v => data.completedVerses[v.reference]);
+    }
+    case 'dailyStreak':
+      return data.bestDailyStreak >= rule.days;
+  }
+};
+
+/** Achievements the check meets that are not unlocked yet, in list order. */
+export const findNewAchievements = (check: AchievementCheck): Achievement[] =>
+  ACHIEVEMENTS.filter(a => !check.data.achievements[a.id] && isMet(a.rule, check));
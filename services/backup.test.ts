@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BackupError, exportBackup, importBackup, parseBackupJson } from './backup';
+import { initStorage, isDailyLocked, loadGameData, recordDailyStart, recordHighScore, recordVerseCompletion } from './storage';
+import { createMemoryBackend } from './storageBackends';
+
+beforeEach(async () => {
+  await initStorage(createMemoryBackend());
+  recordVerseCompletion('詩篇 119:11');
+  recordHighScore('classic', 'normal', 1200);
+});
+
+/** This device's backup with `data` fields replaced. */
+const backupWith = (data: Record<string, unknown>) => {
+  const backup = exportBackup();
+  return JSON.stringify({ ...backup, data: { ...backup.data, ...data } });
+};
+
+describe('parseBackup', () => {
+  it('reads back an exported backup', () => {
+    const backup = exportBackup();
+    expect(parseBackupJson(JSON.stringify(backup))).toEqual(backup);
+  });
+
+  it.each([
+    ['mode', { mode: 'bogus' }],
+    ['difficulty', { difficulty: 'insane' }],
+    ['stats', { stats: {} }],
+    ['highScores.timed.easy', { highScores: { classic: { easy: 0, normal: 0, hard: 0 }, timed: { easy: -5, normal: 0, hard: 0 } } }],
+    ['achievements.combo_10', { achievements: { combo_10: 42 } }],
+  ])('rejects a bad "%s"', (field, data) => {
+    expect(() => parseBackupJson(backupWith(data))).toThrow(new BackupError(`"data.${field}" is not valid`));
+  });
+});
+
+describe('importBackup', () => {
+  it('leaves progress untouched when the file is rejected', () => {
+    const before = loadGameData();
+    expect(() => importBackup(backupWith({ mode: 'bogus' }))).toThrow(BackupError);
+    expect(loadGameData()).toEqual(before);
+  });
+
+  it('keeps a started daily run locked when an older backup is imported', () => {
+    const file = backupWith({ dailyStartedOn: '2026-10-17' });
+    recordDailyStart('2026-10-18');
+    importBackup(file);
+
+    expect(isDailyLocked('2026-10-18')).toBe(true);
+  });
+
+  it('changes nothing when the same file is imported twice', () => {
+    const file = backupWith({ highScores: { classic: { easy: 0, normal: 3000, hard: 0 } } });
+    const once = importBackup(file);
+    expect(once.highScores.classic.normal).toBe(3000);
+    expect(importBackup(file)).toEqual(once);
+  });
+});
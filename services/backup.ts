@@ -0,0 +1,165 @@
+import { MemorizationRecord, ReviewCard, SavedSession, VerseCompletion } from '../types';
+import { shiftDateKey } from './daily';
+import { SessionError, parseSession, parseSessionJson } from './session';
+import { PersistentData, loadGameData, loadSessionData, normalizeGameData, saveGameData, saveSessionData } from './storage';
+
+export const BACKUP_FORMAT = 'bible-blocks-backup';
+export const BACKUP_VERSION = 1;
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/** Everything needed to carry the active profile's progress to another device, as one JSON file. */
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+  /** Records, collection, daily results, memorization and settings. */
+  data: PersistentData;
+  /** The game in progress, in the session save format. */
+  session: SavedSession | null;
+}
+
+const savedSessionOrNull = (): SavedSession | null => {
+  const json = loadSessionData();
+  if (json === null) return null;
+  try {
+    return parseSessionJson(json);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const exportBackup = (): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: loadGameData(),
+  session: savedSessionOrNull(),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseBackup = (data: unknown): Backup => {
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) throw new BackupError('Not a Bible Blocks backup file');
+  if (data.version !== BACKUP_VERSION) throw new BackupError(`Unsupported backup version: ${String(data.version)}`);
+  if (!isObject(data.data)) throw new BackupError('"data" must be an object');
+  const fields = normalizeGameData(data.data, field => {
+    throw new BackupError(`"data.${field}" is not valid`);
+  });
+  let session: SavedSession | null = null;
+  if (data.session !== null && data.session !== undefined) {
+    try {
+      session = parseSession(data.session);
+    } catch (e) {
+      throw new BackupError(`"session": ${(e as SessionError).message}`);
+    }
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date(0).toISOString(),
+    data: fields,
+    session,
+  };
+};
+
+export const parseBackupJson = (json: string): Backup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new BackupError(`Not a valid JSON file: ${(e as Error).message}`);
+  }
+  return parseBackup(data);
+};
+
+/** Union of two keyed records; entries present on both sides are combined with `merge`. */
+const mergeRecords = <T>(a: Record<string, T>, b: Record<string, T>, merge: (a: T, b: T) => T): Record<string, T> => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([key, value]) => {
+    merged[key] = key in a ? merge(a[key], value) : value;
+  });
+  return merged;
+};
+
+const mergeCompletion = (a: VerseCompletion, b: VerseCompletion): VerseCompletion => ({
+  firstCompletedAt: a.firstCompletedAt < b.firstCompletedAt ? a.firstCompletedAt : b.firstCompletedAt,
+  count: Math.max(a.count, b.count),
+});
+
+const mergeMemorization = (a: MemorizationRecord, b: MemorizationRecord): MemorizationRecord => {
+  const latest = a.lastPracticedAt >= b.lastPracticedAt ? a : b;
+  const times = [a.bestTimeMs, b.bestTimeMs].filter((t): t is number => t !== null);
+  return {
+    attempts: Math.max(a.attempts, b.attempts),
+    lastAccuracy: latest.lastAccuracy,
+    bestAccuracy: Math.max(a.bestAccuracy, b.bestAccuracy),
+    bestTimeMs: times.length > 0 ? Math.min(...times) : null,
+    lastPracticedAt: latest.lastPracticedAt,
+  };
+};
+
+const mergeReviewCard = (a: ReviewCard, b: ReviewCard): ReviewCard =>
+  (a.lastReviewed ?? '') >= (b.lastReviewed ?? '') ? a : b;
+
+/** Streak ending on the latest played day and the longest run of consecutive days. */
+const dailyStreaks = (dateKeys: string[]): { last: string | null; current: number; longest: number } => {
+  const days = [...dateKeys].sort();
+  let current = 0;
+  let longest = 0;
+  days.forEach((day, i) => {
+    current = i > 0 && shiftDateKey(days[i - 1], 1) === day ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+  return { last: days[days.length - 1] ?? null, current, longest };
+};
+
+/**
+ * Combines the progress of two devices. Counts are merged so importing the
+ * same file twice changes nothing:
+ * - records and best results take the higher value, first completions and badges the earlier date;
+ * - a day's daily score already on this device is kept, since the first finished run counts;
+ * - the later daily start is kept, so a started day stays locked;
+ * - streaks are recounted from the merged days;
+ * - memorization and review state follow whichever device practiced the verse last;
+ * - statistics cannot be told apart game by game, so the side with more games played wins;
+ * - settings come from the backup.
+ */
+export const mergeGameData = (local: PersistentData, incoming: PersistentData): PersistentData => {
+  const dailyScores = { ...incoming.dailyScores, ...local.dailyScores };
+  const streaks = dailyStreaks(Object.keys(dailyScores));
+  return {
+    ...incoming,
+    completedVerses: mergeRecords(local.completedVerses, incoming.completedVerses, mergeCompletion),
+    highScores: mergeRecords(local.highScores, incoming.highScores, (a, b) => mergeRecords(a, b, Math.max)) as PersistentData['highScores'],
+    dailyScores,
+    // The later start wins, so an import cannot unlock a day already started
+    dailyStartedOn: (local.dailyStartedOn ?? '') > (incoming.dailyStartedOn ?? '') ? local.dailyStartedOn : incoming.dailyStartedOn,
+    dailyStreak: streaks.current,
+    bestDailyStreak: Math.max(local.bestDailyStreak, incoming.bestDailyStreak, streaks.longest),
+    lastDailyDate: streaks.last,
+    memorization: mergeRecords(local.memorization, incoming.memorization, mergeMemorization),
+    reviewSchedule: mergeRecords(local.reviewSchedule, incoming.reviewSchedule, mergeReviewCard),
+    achievements: mergeRecords(local.achievements as Record<string, string>, incoming.achievements as Record<string, string>, (a, b) => (a < b ? a : b)),
+    ...(local.stats.gamesPlayed > incoming.stats.gamesPlayed ? { stats: local.stats, lastGameStats: local.lastGameStats } : {}),
+  };
+};
+
+/**
+ * Merges a backup file into this device's progress. Of the two games in
+ * progress, the one saved last is kept. Returns the merged data.
+ */
+export const importBackup = (json: string): PersistentData => {
+  const backup = parseBackupJson(json);
+  const merged = mergeGameData(loadGameData(), backup.data);
+  saveGameData(merged);
+  const local = savedSessionOrNull();
+  if (backup.session && (!local || backup.session.savedAt > local.savedAt)) saveSessionData(backup.session);
+  return merged;
+};
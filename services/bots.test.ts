@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { greedyBot, playGame } from './bots';
+import { RoundOptions } from './engine';
+
+const OPTIONS: RoundOptions = { language: 'zh', packId: 'classic', difficulty: 'hard' };
+
+describe('playGame', () => {
+  it('reports why the game ended, even on the last allowed move', () => {
+    const full = playGame(greedyBot, 3, OPTIONS);
+    expect(full.endReason).toBe('gameOver');
+
+    expect(playGame(greedyBot, 3, OPTIONS, full.moves)).toMatchObject({ moves: full.moves, endReason: 'gameOver' });
+    expect(playGame(greedyBot, 3, OPTIONS, full.moves - 1)).toMatchObject({ moves: full.moves - 1, endReason: 'moveLimit' });
+  });
+});
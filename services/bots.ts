@@ -0,0 +1,101 @@
+import { EngineState, RoundOptions, applyMove, createInitialState, reshuffleVerse, startNextVerse } from './engine';
+import { MoveEvaluation, evaluateMoves } from './hints';
+
+/** A strategy that picks the next placement, or null when nothing fits. */
+export interface Bot {
+  name: string;
+  chooseMove: (state: EngineState) => MoveEvaluation | null;
+}
+
+/** Takes whatever the move evaluator ranks first. */
+export const greedyBot: Bot = {
+  name: 'greedy',
+  chooseMove: state => evaluateMoves(state)[0] ?? null,
+};
+
+/**
+ * Scores each of the `breadth` best moves by what the best follow-up with the
+ * pieces still in the tray would add. A refilled tray is not looked into: the
+ * bot only knows what a player can see.
+ */
+export const createLookaheadBot = (breadth = 8): Bot => ({
+  name: 'lookahead',
+  chooseMove: state => {
+    let best: MoveEvaluation | null = null;
+    let bestValue = -Infinity;
+    for (const move of evaluateMoves(state).slice(0, breadth)) {
+      let value = move.value;
+      const trayLeft = state.trayPieces.filter(p => p !== null).length > 1;
+      if (trayLeft && !move.gameOver && !move.completesVerse) {
+        const next = applyMove(state, move.trayIndex, move.rotation, move.pos)!.nextState;
+        const [followUp] = evaluateMoves(next);
+        value += followUp ? followUp.value : -1000;
+      }
+      if (value > bestValue) {
+        best = move;
+        bestValue = value;
+      }
+    }
+    return best;
+  },
+});
+
+export const BOTS: Record<string, () => Bot> = {
+  greedy: () => greedyBot,
+  lookahead: () => createLookaheadBot(),
+};
+
+export type GameEndReason = 'gameOver' | 'moveLimit';
+
+export interface GameReport {
+  seed: number;
+  score: number;
+  moves: number;
+  /** Indices of the verses cleared, in order. */
+  versesCompleted: number[];
+  endReason: GameEndReason;
+  /** Blocked verses the bot had to pay to reshuffle. */
+  reshuffles: number;
+  /** Verse on the board when the game ended and how much of it was collected. */
+  lastVerseIndex: number;
+  lastVerseProgress: number;
+}
+
+/**
+ * Plays one seeded game to the end. Cleared verses are followed by the next
+ * verse the seed draws, as in a classic run without memorization. A blocked
+ * verse is always reshuffled.
+ */
+export const playGame = (bot: Bot, seed: number, options: RoundOptions, maxMoves = 2000): GameReport => {
+  let state = createInitialState(seed, options);
+  const versesCompleted: number[] = [];
+  let moves = 0;
+  let reshuffles = 0;
+  while (!state.isGameOver && moves < maxMoves) {
+    if (state.isRoundClearing) {
+      versesCompleted.push(state.currentVerseIndex);
+      state = startNextVerse(state);
+      continue;
+    }
+    if (state.isVerseBlocked) {
+      state = reshuffleVerse(state) ?? state;
+      reshuffles++;
+    }
+    const move = bot.chooseMove(state);
+    const result = move && applyMove(state, move.trayIndex, move.rotation, move.pos);
+    if (!result) break;
+    // Bots never undo, so there is no point carrying the history around
+    state = { ...result.nextState, history: [] };
+    moves++;
+  }
+  return {
+    seed,
+    score: state.score,
+    moves,
+    versesCompleted,
+    reshuffles,
+    endReason: state.isGameOver ? 'gameOver' : 'moveLimit',
+    lastVerseIndex: state.currentVerseIndex,
+    lastVerseProgress: state.collectedIndices.size,
+  };
+};
@@ -0,0 +1,35 @@
+import { SAMPLE_VERSES } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Local calendar date as `YYYY-MM-DD`; every player on the same date gets the same challenge. */
+export const getDateKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+const dayNumber = (dateKey: string): number => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Math.floor(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const date = new Date((dayNumber(dateKey) + days) * DAY_MS);
+  return getDateKey(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+/** FNV-1a hash of the date key, used as the run seed. */
+export const dailySeed = (dateKey: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < dateKey.length; i++) {
+    h ^= dateKey.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** Walks through the verse list one day at a time so consecutive days never repeat. */
+export const dailyVerseIndex = (dateKey: string): number =>
+  dayNumber(dateKey) % SAMPLE_VERSES.length;
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { PIECES } from '../constants';
+import { CellData, Piece } from '../types';
+import { EngineState, applyMove, createInitialState, getVerseTokens } from './engine';
+import { createEmptyGrid } from './gameLogic';
+
+const SIZE = 12;
+
+/** An easy round (12x12, no locked cells) with the board and tray replaced. */
+const setup = (fill: (grid: CellData[][]) => void, tray: (Piece | null)[]): EngineState => {
+  const state = createInitialState(1, { language: 'en', packId: 'classic', verseIndex: 0, difficulty: 'easy' });
+  const grid = createEmptyGrid(SIZE);
+  fill(grid);
+  return { ...state, grid, trayPieces: tray };
+};
+
+const fillRow = (grid: CellData[][], y: number, except: number[] = []) => {
+  for (let x = 0; x < SIZE; x++) if (!except.includes(x)) grid[y][x].filled = true;
+};
+
+const firstCollectible = (state: EngineState) => getVerseTokens(state).findIndex(t => t.collectible);
+
+describe('applyMove', () => {
+  it('places a piece, scores it and empties its tray slot', () => {
+    const state = setup(() => {}, [{ ...PIECES.O }, { ...PIECES.dot }, { ...PIECES.dot }]);
+    const result = applyMove(state, 0, 0, { x: 3, y: 4 })!;
+
+    expect(result.events[0]).toMatchObject({ type: 'placed', trayIndex: 0, pos: { x: 3, y: 4 } });
+    expect([[3, 4], [4, 4], [3, 5], [4, 5]].every(([x, y]) => result.nextState.grid[y][x].filled)).toBe(true);
+    expect(result.nextState.trayPieces[0]).toBeNull();
+    expect(result.nextState.score).toBeGreaterThan(0);
+    expect(result.nextState.history).toHaveLength(1);
+    expect(state.grid[4][3].filled).toBe(false);
+  });
+
+  it('rejects a placement that overlaps a block or leaves the board', () => {
+    const state = setup(grid => { grid[0][0].filled = true; }, [{ ...PIECES.O }, null, null]);
+    expect(applyMove(state, 0, 0, { x: 0, y: 0 })).toBeNull();
+    expect(applyMove(state, 0, 0, { x: SIZE - 1, y: 0 })).toBeNull();
+    expect(applyMove(state, 1, 0, { x: 5, y: 5 })).toBeNull();
+  });
+
+  it('clears full rows and columns and starts a combo', () => {
+    const state = setup(grid => {
+      fillRow(grid, 0, [0]);
+      for (let y = 1; y < SIZE; y++) grid[y][0].filled = true;
+    }, [{ ...PIECES.dot }, { ...PIECES.dot }, { ...PIECES.dot }]);
+    const result = applyMove(state, 0, 0, { x: 0, y: 0 })!;
+
+    expect(result.events).toContainEqual(expect.objectContaining({ type: 'linesCleared', rows: [0], cols: [0], combo: 1 }));
+    expect(result.nextState.grid.flat().some(cell => cell.filled)).toBe(false);
+    expect(result.nextState.combo).toBe(1);
+  });
+
+  it('collects the characters on a cleared line', () => {
+    const base = setup(() => {}, [{ ...PIECES.dot }, { ...PIECES.dot }, { ...PIECES.dot }]);
+    const index = firstCollectible(base);
+    const state = setup(grid => {
+      fillRow(grid, 2, [0]);
+      grid[2][5] = { ...grid[2][5], char: 'x', charIndex: index };
+    }, base.trayPieces);
+    const result = applyMove(state, 0, 0, { x: 0, y: 2 })!;
+
+    expect(result.events).toContainEqual({ type: 'charsCollected', indices: [index] });
+    expect(result.nextState.collectedIndices.has(index)).toBe(true);
+    expect(result.nextState.grid[2][5]).toMatchObject({ filled: false, collected: true });
+  });
+
+  it('refills the tray once its last piece is placed', () => {
+    const state = setup(() => {}, [{ ...PIECES.dot }, null, null]);
+    const result = applyMove(state, 0, 0, { x: 0, y: 0 })!;
+
+    const refill = result.events.find(ev => ev.type === 'trayRefilled');
+    expect(refill).toBeDefined();
+    expect(result.nextState.trayPieces).toHaveLength(3);
+    expect(result.nextState.trayPieces.every(piece => piece !== null)).toBe(true);
+    expect(result.nextState.rngState).not.toBe(state.rngState);
+  });
+
+  it('ends the game when nothing left in the tray fits', () => {
+    // Two gaps per row and column, side by side: room for a dot, never for a line of four
+    const state = setup(grid => {
+      for (let y = 0; y < SIZE; y++) fillRow(grid, y, [y, (y + 1) % SIZE]);
+    }, [{ ...PIECES.dot }, { ...PIECES.I }, { ...PIECES.I }]);
+    const result = applyMove(state, 0, 0, { x: 0, y: 0 })!;
+
+    expect(result.events).not.toContainEqual(expect.objectContaining({ type: 'linesCleared' }));
+    expect(result.nextState.isGameOver).toBe(true);
+    expect(result.events[result.events.length - 1]).toEqual({ type: 'gameOver', score: result.nextState.score });
+    expect(applyMove(result.nextState, 1, 0, { x: 0, y: 0 })).toBeNull();
+  });
+});
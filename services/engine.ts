@@ -0,0 +1,570 @@
+import { DIFFICULTY_PRESETS, POWER_UP_PIECES } from '../constants';
+import { CellData, Difficulty, GameMode, GameState, Language, MoveSnapshot, Piece, PieceId, Point, PowerUp, ScoreItem } from '../types';
+import {
+  createEmptyGrid,
+  rotatePiece,
+  checkCollision,
+  distributeVerse,
+  paginateVerse,
+  canPlaceAnywhere,
+  findBlockedTokens,
+  clearSpace,
+  placeLockedCells,
+  PlacedToken,
+  PlacementDiagnostics
+} from './gameLogic';
+import { createRng, Rng } from './random';
+import { distributionPieceIds, drawPiece, getPiece } from './pieces';
+import { getVerseLanguage, getVerseText } from './verses';
+import { getPackVerses } from './versePacks';
+import { VerseToken, tokenizeVerse, countCollectible } from './tokenizer';
+import { addToTally, emptyTally, scoreForLines, scoreVerseFinish, scoreVerseProgress } from './scoring';
+
+/**
+ * The subset of GameState the rules operate on. Anything with these fields
+ * (the React state, a bot, a replay runner) can be driven by the engine.
+ */
+export type EngineState = Pick<
+  GameState,
+  | 'grid'
+  | 'trayPieces'
+  | 'score'
+  | 'combo'
+  | 'packId'
+  | 'currentVerseIndex'
+  | 'versePage'
+  | 'collectedIndices'
+  | 'isGameOver'
+  | 'isRoundClearing'
+  | 'isVerseBlocked'
+  | 'seed'
+  | 'rngState'
+  | 'language'
+  | 'mode'
+  | 'history'
+  | 'undoLimit'
+  | 'undosUsed'
+  | 'hintLimit'
+  | 'hintsUsed'
+  | 'difficulty'
+  | 'boardSize'
+  | 'traySize'
+  | 'pieceBag'
+  | 'pendingPowerUps'
+  | 'orderStreak'
+  | 'litIndex'
+  | 'verseTally'
+>;
+
+export type GameEvent =
+  | { type: 'placed'; piece: Piece; trayIndex: number; pos: Point }
+  | { type: 'linesCleared'; rows: number[]; cols: number[]; combo: number; points: number }
+  | { type: 'charsCollected'; indices: number[] }
+  | { type: 'trayRefilled'; pieces: Piece[] }
+  | { type: 'versePageCompleted'; verseIndex: number; page: number; pageCount: number; placement: PlacementDiagnostics }
+  /** `inOrder` when every token of the verse was collected in reading order. */
+  | { type: 'verseCompleted'; verseIndex: number; moves: number; inOrder: boolean }
+  | { type: 'verseBlocked'; indices: number[] }
+  | { type: 'powerUpEarned'; powerUp: PowerUp }
+  | { type: 'powerUpUsed'; powerUp: PowerUp; pos: Point; points: number }
+  | { type: 'spaceCleared'; blocks: number }
+  | { type: 'scored'; items: ScoreItem[] }
+  | { type: 'gameOver'; score: number };
+
+export interface MoveResult<S extends EngineState> {
+  nextState: S;
+  events: GameEvent[];
+}
+
+/** Placements kept for undo. */
+export const MAX_HISTORY = 20;
+/** Points a hint costs. */
+export const HINT_COST = 50;
+/** Points a reshuffle of a blocked verse costs. */
+export const RESHUFFLE_PENALTY = 200;
+/** Moves in a row that collect the next character in reading order to earn a lamp. */
+export const ORDER_STREAK_FOR_LAMP = 3;
+/** Combo levels that earn a power-up the moment they are reached. */
+export const COMBO_POWER_UPS: Record<number, PowerUp> = { 3: 'sweeper', 5: 'bomb' };
+/** Points per block a bomb or sweeper clears. */
+export const POWER_UP_CELL_POINTS = 10;
+/** Reshuffles retried until the verse is collectable again. */
+const MAX_RESHUFFLE_ATTEMPTS = 20;
+
+export const cloneGrid = (grid: CellData[][]): CellData[][] =>
+  grid.map(row => row.map(cell => ({ ...cell })));
+
+/** Deals a full tray from the difficulty's distribution, returning the bag left over. */
+export const createTray = (
+  rng: Rng,
+  { difficulty, traySize }: Pick<EngineState, 'difficulty' | 'traySize'>,
+  bag: PieceId[]
+): { pieces: Piece[]; pieceBag: PieceId[] } => {
+  const pieces: Piece[] = [];
+  let pieceBag = bag;
+  for (let i = 0; i < traySize; i++) {
+    const drawn = drawPiece(rng, DIFFICULTY_PRESETS[difficulty].pieces, pieceBag);
+    pieces.push(drawn.piece);
+    pieceBag = drawn.bag;
+  }
+  return { pieces, pieceBag };
+};
+
+/** Identifies the verse being played: which pack, which entry, which language. */
+export type VerseRef = Pick<EngineState, 'packId' | 'currentVerseIndex' | 'language'>;
+
+export interface RoundOptions {
+  language: Language;
+  packId: string;
+  undoLimit?: number | null;
+  /** Defaults to the difficulty's hint budget. */
+  hintLimit?: number;
+  difficulty?: Difficulty;
+  mode?: GameMode;
+  /** Forces the verse instead of drawing it from the seed. */
+  verseIndex?: number;
+}
+
+export const pickVerseIndex = (rng: Rng, packId: string): number => rng.int(getPackVerses(packId).length);
+
+export const getVerseTokens = ({ packId, currentVerseIndex, language }: VerseRef): VerseToken[] => {
+  const verse = getPackVerses(packId)[currentVerseIndex];
+  return tokenizeVerse(getVerseText(verse, language).text, getVerseLanguage(verse, language));
+};
+
+export const getVersePages = (ref: VerseRef, boardSize: number): PlacedToken[][] =>
+  paginateVerse(getVerseTokens(ref), boardSize);
+
+/** Number of tokens that must be collected to clear the verse. */
+export const getRequiredTokenCount = (ref: VerseRef): number =>
+  countCollectible(getVerseTokens(ref));
+
+/**
+ * Builds a fresh round from a seed: empty board, the verse scattered on it and
+ * a full tray, all sized by the difficulty. The verse is drawn from the seed
+ * unless one is forced.
+ */
+export const createInitialState = (seed: number, { language, packId, verseIndex, undoLimit = null, hintLimit, difficulty = 'normal', mode = 'classic' }: RoundOptions): EngineState => {
+  const { boardSize, traySize, hintLimit: presetHints, lockedCells } = DIFFICULTY_PRESETS[difficulty];
+  const rng = createRng(seed);
+  const verseIdx = verseIndex ?? pickVerseIndex(rng, packId);
+  const grid = createEmptyGrid(boardSize);
+  distributeVerse(grid, getVersePages({ packId, currentVerseIndex: verseIdx, language }, boardSize)[0], rng);
+  placeLockedCells(grid, lockedCells, rng);
+  const { pieces: trayPieces, pieceBag } = createTray(rng, { difficulty, traySize }, []);
+  return refreshStatus({
+    grid,
+    trayPieces,
+    score: 0,
+    combo: 0,
+    packId,
+    currentVerseIndex: verseIdx,
+    versePage: 0,
+    collectedIndices: new Set<number>(),
+    isGameOver: false,
+    isRoundClearing: false,
+    isVerseBlocked: false,
+    seed,
+    rngState: rng.getState(),
+    language,
+    mode,
+    history: [],
+    undoLimit,
+    undosUsed: 0,
+    hintLimit: hintLimit ?? presetHints,
+    hintsUsed: 0,
+    difficulty,
+    boardSize,
+    traySize,
+    pieceBag,
+    pendingPowerUps: [],
+    orderStreak: 0,
+    litIndex: null,
+    verseTally: emptyTally(),
+  });
+};
+
+/**
+ * Scatters the next verse over the current board, keeping placed blocks and
+ * adding the difficulty's locked ones. Unused power-ups carry over.
+ */
+export const startNextVerse = <S extends EngineState>(state: S, verseIndex?: number): S => {
+  const rng = createRng(state.rngState);
+  const verseIdx = verseIndex ?? pickVerseIndex(rng, state.packId);
+  const grid = cloneGrid(state.grid);
+  distributeVerse(grid, getVersePages({ ...state, currentVerseIndex: verseIdx }, state.boardSize)[0], rng);
+  placeLockedCells(grid, DIFFICULTY_PRESETS[state.difficulty].lockedCells, rng);
+  return refreshStatus({
+    ...state,
+    currentVerseIndex: verseIdx,
+    versePage: 0,
+    grid,
+    collectedIndices: new Set<number>(),
+    isRoundClearing: false,
+    rngState: rng.getState(),
+    history: [],
+    undosUsed: 0,
+    hintsUsed: 0,
+    orderStreak: 0,
+    litIndex: null,
+    verseTally: emptyTally(),
+  });
+};
+
+export const isTrayStuck = (grid: CellData[][], tray: (Piece | null)[]): boolean => {
+  const remaining = tray.filter((p): p is Piece => p !== null);
+  return remaining.length > 0 && !remaining.some(p => canPlaceAnywhere(grid, p));
+};
+
+/** Every piece the tray can deal at this difficulty; what a blocked cell is checked against. */
+const dealablePieces = (difficulty: Difficulty): Piece[] =>
+  distributionPieceIds(DIFFICULTY_PRESETS[difficulty].pieces).map(getPiece);
+
+/** Uncollected tokens of the current page that no row or column clear can reach any more. */
+export const getBlockedTokens = (state: EngineState): number[] =>
+  findBlockedTokens(state.grid, dealablePieces(state.difficulty));
+
+/**
+ * Re-evaluates game over and verse deadlock from the board and tray. Runs
+ * whenever either changes: a new round, a placement, a refill, an undo or a
+ * restored session. Game over is sticky; a verse that is already cleared
+ * cannot end the game or be blocked. In zen mode a stuck tray gets room
+ * cleared on the board instead, and the game only ends if none can be made.
+ */
+export const refreshStatus = <S extends EngineState>(state: S): S => {
+  if (state.isRoundClearing) return { ...state, isVerseBlocked: false };
+  let grid = state.grid;
+  let stuck = isTrayStuck(grid, state.trayPieces);
+  if (stuck && state.mode === 'zen') {
+    const roomy = cloneGrid(grid);
+    if (clearSpace(roomy, state.trayPieces.filter((p): p is Piece => p !== null)) > 0) {
+      grid = roomy;
+      stuck = isTrayStuck(grid, state.trayPieces);
+    }
+  }
+  const next = { ...state, grid };
+  return {
+    ...next,
+    isGameOver: state.isGameOver || stuck,
+    isVerseBlocked: getBlockedTokens(next).length > 0,
+  };
+};
+
+/** Blocks removed between two boards, i.e. the room zen mode made. */
+const countRemovedBlocks = (before: CellData[][], after: CellData[][]): number =>
+  before.reduce((sum, row, y) => sum + row.filter((cell, x) => cell.filled && !after[y][x].filled).length, 0);
+
+/**
+ * Recovery for a blocked verse: scatters the tokens still to be collected on
+ * this page over the board again, for a score penalty. Blocks stay where they
+ * are. Undo history is dropped since it predates the new layout. Returns null
+ * when the verse is not blocked.
+ */
+export const reshuffleVerse = <S extends EngineState>(state: S): S | null => {
+  if (!state.isVerseBlocked || state.isGameOver || state.isRoundClearing) return null;
+  return refreshStatus({
+    ...scatterRemainingTokens(state),
+    score: Math.max(0, state.score - RESHUFFLE_PENALTY),
+    combo: 0,
+  });
+};
+
+/** Tokens still to be collected on the current page, in reading order. */
+const remainingTokens = (state: EngineState): PlacedToken[] =>
+  getVersePages(state, state.boardSize)[state.versePage].filter(t => !state.collectedIndices.has(t.index));
+
+/** Scatters the tokens still to be collected over the board again, keeping the blocks and dropping undo history. */
+const scatterRemainingTokens = <S extends EngineState>(state: S): S => {
+  const rng = createRng(state.rngState);
+  const remaining = remainingTokens(state);
+  let grid = cloneGrid(state.grid);
+  for (let attempt = 0; attempt < MAX_RESHUFFLE_ATTEMPTS; attempt++) {
+    grid = cloneGrid(state.grid);
+    distributeVerse(grid, remaining, rng);
+    if (findBlockedTokens(grid, dealablePieces(state.difficulty)).length === 0) break;
+  }
+  return { ...state, grid, rngState: rng.getState(), history: [] };
+};
+
+/** Tokens still to be collected on the current page that are not on the board, so can never be collected. */
+export const getMissingTokens = (state: EngineState): number[] => {
+  const onBoard = new Set(state.grid.flat().flatMap(cell => (cell.charIndex === null || cell.collected ? [] : [cell.charIndex])));
+  return remainingTokens(state).filter(t => !onBoard.has(t.index)).map(t => t.index);
+};
+
+/**
+ * Scatters the page again when a token still to be collected is missing from
+ * the board, e.g. in a game saved by an older version, since such a verse
+ * could never be cleared. Returns the state unchanged otherwise.
+ */
+export const replaceMissingTokens = <S extends EngineState>(state: S): S =>
+  state.isRoundClearing || getMissingTokens(state).length === 0 ? state : scatterRemainingTokens(state);
+
+export const findFullLines = (grid: CellData[][]): { rows: number[]; cols: number[] } => {
+  const rows: number[] = [];
+  const cols: number[] = [];
+  const size = grid.length;
+  for (let y = 0; y < size; y++) if (grid[y].every(c => c.filled)) rows.push(y);
+  for (let x = 0; x < size; x++) {
+    let full = true;
+    for (let y = 0; y < size; y++) if (!grid[y][x].filled) { full = false; break; }
+    if (full) cols.push(x);
+  }
+  return { rows, cols };
+};
+
+/** Turns a tray piece a quarter clockwise before it is placed. */
+export const rotateTrayPiece = <S extends EngineState>(state: S, trayIndex: number): S => {
+  const piece = state.trayPieces[trayIndex];
+  if (!piece) return state;
+  const trayPieces = [...state.trayPieces];
+  trayPieces[trayIndex] = rotatePiece(piece);
+  return { ...state, trayPieces };
+};
+
+const takeSnapshot = (state: EngineState): MoveSnapshot => ({
+  grid: state.grid,
+  trayPieces: state.trayPieces,
+  score: state.score,
+  combo: state.combo,
+  collectedIndices: Array.from(state.collectedIndices),
+  versePage: state.versePage,
+  rngState: state.rngState,
+  hintsUsed: state.hintsUsed,
+  pieceBag: state.pieceBag,
+  pendingPowerUps: state.pendingPowerUps,
+  orderStreak: state.orderStreak,
+  litIndex: state.litIndex,
+  verseTally: state.verseTally,
+});
+
+export const canUndo = (state: EngineState): boolean =>
+  !state.isGameOver &&
+  !state.isRoundClearing &&
+  state.history.length > 0 &&
+  (state.undoLimit === null || state.undosUsed < state.undoLimit);
+
+/**
+ * Restores the state from before the last placement, including the PRNG so
+ * the same tray comes back. Returns null when undo is not allowed.
+ */
+export const undoMove = <S extends EngineState>(state: S): S | null => {
+  if (!canUndo(state)) return null;
+  const snapshot = state.history[state.history.length - 1];
+  // Hints taken after the move stay paid for
+  const hintsSince = state.hintsUsed - snapshot.hintsUsed;
+  return refreshStatus({
+    ...state,
+    grid: snapshot.grid,
+    trayPieces: snapshot.trayPieces,
+    score: snapshot.score - hintsSince * HINT_COST,
+    combo: snapshot.combo,
+    collectedIndices: new Set(snapshot.collectedIndices),
+    versePage: snapshot.versePage,
+    rngState: snapshot.rngState,
+    pieceBag: snapshot.pieceBag,
+    pendingPowerUps: snapshot.pendingPowerUps,
+    orderStreak: snapshot.orderStreak,
+    litIndex: snapshot.litIndex,
+    verseTally: snapshot.verseTally,
+    history: state.history.slice(0, -1),
+    undosUsed: state.undosUsed + 1,
+  });
+};
+
+/** Cells a power-up clears when dropped at `pos`; a lamp clears nothing. */
+const powerUpArea = (powerUp: PowerUp, pos: Point, size: number): Point[] => {
+  const cells: Point[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inArea = powerUp === 'bomb'
+        ? Math.abs(x - pos.x) <= 1 && Math.abs(y - pos.y) <= 1
+        : powerUp === 'sweeper' && (x === pos.x || y === pos.y);
+      if (inArea) cells.push({ x, y });
+    }
+  }
+  return cells;
+};
+
+/** First token of the current page still to be collected, in reading order. */
+const nextNeededToken = (pageTokens: PlacedToken[], collected: Set<number>): number | null =>
+  pageTokens.find(t => !collected.has(t.index))?.index ?? null;
+
+/** The board right after a piece lands, before scoring and the tray are dealt with. */
+export interface Landing {
+  grid: CellData[][];
+  rows: number[];
+  cols: number[];
+  /** Blocks a power-up removed; 0 for ordinary pieces. */
+  blocks: number;
+  /** Characters uncovered by the clear, in the order their cells were cleared. */
+  collected: number[];
+}
+
+/**
+ * Drops an already rotated piece on a copy of the board at a free spot: an
+ * ordinary piece fills its cells and clears the lines it completes, a
+ * power-up clears its area. Shared by moves and by the hint evaluator, which
+ * needs the outcome of every candidate without the cost of a whole move.
+ */
+export const landPiece = (board: CellData[][], piece: Piece, pos: Point): Landing => {
+  const grid = cloneGrid(board);
+  const collected: number[] = [];
+  // A cell on both a cleared row and a cleared column counts as cleared twice
+  const clearCell = (cell: CellData) => {
+    if (cell.locked) {
+      cell.locked = false;
+      return;
+    }
+    if (cell.charIndex !== null && !cell.collected) {
+      cell.collected = true;
+      collected.push(cell.charIndex);
+    }
+    cell.filled = false;
+  };
+
+  if (piece.powerUp) {
+    // Power-ups act where they land and leave no block
+    const area = powerUpArea(piece.powerUp, pos, grid.length);
+    const blocks = area.filter(({ x, y }) => grid[y][x].filled).length;
+    area.forEach(({ x, y }) => clearCell(grid[y][x]));
+    return { grid, rows: [], cols: [], blocks, collected };
+  }
+  piece.shape.forEach((row, py) => {
+    row.forEach((value, px) => {
+      if (value) {
+        grid[pos.y + py][pos.x + px].filled = true;
+        grid[pos.y + py][pos.x + px].color = piece.color;
+      }
+    });
+  });
+  const { rows, cols } = findFullLines(grid);
+  rows.forEach(y => { for (let x = 0; x < grid.length; x++) clearCell(grid[y][x]); });
+  cols.forEach(x => { for (let y = 0; y < grid.length; y++) clearCell(grid[y][x]); });
+  return { grid, rows, cols, blocks: 0, collected };
+};
+
+/**
+ * Places tray piece `trayIndex`, rotated `rotation` quarter turns clockwise,
+ * with its top-left corner at `pos`. Returns null when the move is illegal
+ * (empty slot, out of bounds or overlapping), otherwise the resulting state
+ * and the events it produced, in order. The input state is never mutated.
+ */
+export const applyMove = <S extends EngineState>(
+  state: S,
+  trayIndex: number,
+  rotation: number,
+  pos: Point
+): MoveResult<S> | null => {
+  if (state.isGameOver || state.isRoundClearing) return null;
+  const trayPiece = state.trayPieces[trayIndex];
+  if (!trayPiece) return null;
+
+  let piece = trayPiece;
+  for (let r = 0; r < ((rotation % 4) + 4) % 4; r++) piece = rotatePiece(piece);
+
+  if (checkCollision(state.grid, piece, pos)) return null;
+
+  const events: GameEvent[] = [{ type: 'placed', piece, trayIndex, pos }];
+
+  const { scoreMultiplier } = DIFFICULTY_PRESETS[state.difficulty];
+  const { grid, rows, cols, blocks, collected: collectedInThisTurn } = landPiece(state.grid, piece, pos);
+
+  let combo = state.combo;
+  const items: ScoreItem[] = [];
+  let points: number;
+  if (piece.powerUp) {
+    // The combo is untouched by power-ups
+    points = Math.round(blocks * POWER_UP_CELL_POINTS * scoreMultiplier);
+    items.push({ kind: 'powerUp', points, count: blocks });
+    events.push({ type: 'powerUpUsed', powerUp: piece.powerUp, pos, points });
+  } else {
+    const linesCleared = rows.length + cols.length;
+    combo = linesCleared > 0 ? state.combo + 1 : 0;
+    points = Math.round(scoreForLines(linesCleared, combo) * scoreMultiplier);
+    items.push({ kind: linesCleared > 0 ? 'lines' : 'placement', points, count: linesCleared });
+    if (linesCleared > 0) events.push({ type: 'linesCleared', rows, cols, combo, points });
+  }
+  if (collectedInThisTurn.length > 0) events.push({ type: 'charsCollected', indices: collectedInThisTurn });
+  const tokens = getVerseTokens(state);
+  scoreVerseProgress(tokens, state.collectedIndices, collectedInThisTurn)
+    .forEach(item => items.push({ ...item, points: Math.round(item.points * scoreMultiplier) }));
+
+  const pages = getVersePages(state, state.boardSize);
+  const pendingPowerUps = [...state.pendingPowerUps];
+  const earn = (powerUp: PowerUp) => {
+    pendingPowerUps.push(powerUp);
+    events.push({ type: 'powerUpEarned', powerUp });
+  };
+  let orderStreak = state.orderStreak;
+  if (collectedInThisTurn.length > 0) {
+    const wanted = nextNeededToken(pages[state.versePage], state.collectedIndices);
+    orderStreak = wanted !== null && collectedInThisTurn.includes(wanted) ? orderStreak + 1 : 0;
+    if (orderStreak >= ORDER_STREAK_FOR_LAMP) {
+      earn('lamp');
+      orderStreak = 0;
+    }
+  }
+  if (combo > state.combo && COMBO_POWER_UPS[combo]) earn(COMBO_POWER_UPS[combo]);
+
+  const rng = createRng(state.rngState);
+  let trayPieces: (Piece | null)[] = [...state.trayPieces];
+  let pieceBag = state.pieceBag;
+  trayPieces[trayIndex] = null;
+  if (trayPieces.every(p => p === null)) {
+    const tray = createTray(rng, state, pieceBag);
+    trayPieces = tray.pieces;
+    pieceBag = tray.pieceBag;
+    // One earned power-up takes the last slot of each fresh tray
+    const powerUp = pendingPowerUps.shift();
+    if (powerUp) trayPieces[trayPieces.length - 1] = { ...POWER_UP_PIECES[powerUp] };
+    events.push({ type: 'trayRefilled', pieces: trayPieces as Piece[] });
+  }
+
+  const collectedIndices = new Set([...Array.from(state.collectedIndices), ...collectedInThisTurn]);
+  let litIndex = state.litIndex !== null && collectedIndices.has(state.litIndex) ? null : state.litIndex;
+  if (piece.powerUp === 'lamp') litIndex = nextNeededToken(pages[state.versePage], collectedIndices);
+  const nextState: S = {
+    ...state,
+    grid,
+    trayPieces,
+    combo,
+    collectedIndices,
+    pieceBag,
+    pendingPowerUps,
+    orderStreak,
+    litIndex,
+    history: [...state.history, takeSnapshot(state)].slice(-MAX_HISTORY),
+  };
+
+  const pageDone = pages[state.versePage].every(t => collectedIndices.has(t.index));
+  if (pageDone && state.versePage < pages.length - 1) {
+    // Long verses continue on the same board with the next page of tokens
+    const page = state.versePage + 1;
+    const placement = distributeVerse(grid, pages[page], rng);
+    nextState.versePage = page;
+    nextState.litIndex = null;
+    events.push({ type: 'versePageCompleted', verseIndex: state.currentVerseIndex, page: state.versePage, pageCount: pages.length, placement });
+  } else if (pageDone) {
+    nextState.isRoundClearing = true;
+    const finish = scoreVerseFinish(countCollectible(tokens), state.verseTally.moves + 1);
+    if (finish) items.push({ ...finish, points: Math.round(finish.points * scoreMultiplier) });
+  }
+  const score = state.score + items.reduce((sum, item) => sum + item.points, 0);
+  nextState.score = score;
+  nextState.verseTally = addToTally(state.verseTally, items, 1);
+  if (nextState.isRoundClearing) {
+    // Each token counts towards reading order at most once, when it is collected
+    const inOrder = nextState.verseTally.counts.inOrder === countCollectible(tokens);
+    events.push({ type: 'verseCompleted', verseIndex: state.currentVerseIndex, moves: nextState.verseTally.moves, inOrder });
+  }
+  events.push({ type: 'scored', items });
+  nextState.rngState = rng.getState();
+
+  const checked = refreshStatus(nextState);
+  if (checked.grid !== nextState.grid) events.push({ type: 'spaceCleared', blocks: countRemovedBlocks(nextState.grid, checked.grid) });
+  if (checked.isVerseBlocked && !state.isVerseBlocked) events.push({ type: 'verseBlocked', indices: getBlockedTokens(checked) });
+  if (checked.isGameOver) events.push({ type: 'gameOver', score });
+
+  return { nextState: checked, events };
+};
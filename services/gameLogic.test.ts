@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFICULTIES, DIFFICULTY_PRESETS, SAMPLE_VERSES } from '../constants';
+import { Language } from '../types';
+import { createInitialState, getVerseTokens } from './engine';
+import { createEmptyGrid, distributeVerse, paginateVerse } from './gameLogic';
+import { createRng } from './random';
+import { DEFAULT_PACK_ID } from './versePacks';
+
+const LANGUAGES: Language[] = ['zh', 'en'];
+const SEEDS = [1, 2, 3];
+
+describe.each(LANGUAGES)('every sample verse in %s', language => {
+  describe.each(DIFFICULTIES)('on the %s board', difficulty => {
+    const { boardSize } = DIFFICULTY_PRESETS[difficulty];
+
+    it(`places every token of every page on a ${boardSize}x${boardSize} board`, () => {
+      SAMPLE_VERSES.forEach((verse, verseIndex) => {
+        const tokens = getVerseTokens({ packId: DEFAULT_PACK_ID, currentVerseIndex: verseIndex, language });
+        const pages = paginateVerse(tokens, boardSize);
+        const collectible = tokens.flatMap((token, index) => (token.collectible ? [index] : []));
+        expect(pages.flat().map(t => t.index), verse.reference).toEqual(collectible);
+
+        pages.forEach((page, p) => {
+          SEEDS.forEach(seed => {
+            const grid = createEmptyGrid(boardSize);
+            const diagnostics = distributeVerse(grid, page, createRng(seed));
+            const onBoard = grid.flat().flatMap(cell => (cell.charIndex === null ? [] : [cell.charIndex]));
+            const where = `${verse.reference} page ${p + 1}, seed ${seed}`;
+            expect(diagnostics.unplaced, where).toEqual([]);
+            expect(diagnostics.placed, where).toBe(page.length);
+            expect(onBoard.sort((a, b) => a - b), where).toEqual(page.map(t => t.index));
+          });
+        });
+      });
+    });
+
+    it('starts rounds that are neither over nor blocked', () => {
+      SAMPLE_VERSES.forEach((verse, verseIndex) => {
+        SEEDS.forEach(seed => {
+          const state = createInitialState(seed, { language, packId: DEFAULT_PACK_ID, verseIndex, difficulty });
+          const where = `${verse.reference}, seed ${seed}`;
+          expect(state.isGameOver, where).toBe(false);
+          expect(state.isVerseBlocked, where).toBe(false);
+        });
+      });
+    });
+  });
+});
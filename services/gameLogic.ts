@@ -1,25 +1,23 @@
 
-import { GRID_SIZE, TETROMINOES } from '../constants';
-import { CellData, Piece, Point, TetrominoType } from '../types';
+import { GRID_SIZE, LOCKED_CELL_COLOR } from '../constants';
+import { CellData, Piece, Point } from '../types';
+import { Rng } from './random';
+import { VerseToken } from './tokenizer';
 
-export const createEmptyGrid = (): CellData[][] => {
-  return Array.from({ length: GRID_SIZE }, () =>
-    Array.from({ length: GRID_SIZE }, () => ({
+/** Boards are square; every function below reads the size off the grid it is given. */
+export const createEmptyGrid = (size: number = GRID_SIZE): CellData[][] => {
+  return Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => ({
       filled: false,
       color: null,
       char: null,
       charIndex: null,
       collected: false,
+      locked: false,
     }))
   );
 };
 
-export const getRandomPiece = (): Piece => {
-  const types: TetrominoType[] = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
-  const type = types[Math.floor(Math.random() * types.length)];
-  return { ...TETROMINOES[type] };
-};
-
 export const rotatePiece = (piece: Piece): Piece => {
   const shape = piece.shape;
   const newShape = shape[0].map((_, index) =>
@@ -40,9 +38,9 @@ export const checkCollision = (
         const gridY = pos.y + y;
         if (
           gridX < 0 ||
-          gridX >= GRID_SIZE ||
+          gridX >= grid.length ||
           gridY < 0 ||
-          gridY >= GRID_SIZE ||
+          gridY >= grid.length ||
           grid[gridY][gridX].filled
         ) {
           return true;
@@ -53,56 +51,120 @@ export const checkCollision = (
   return false;
 };
 
+/** A collectible token together with its position in the verse's full token list. */
+export interface PlacedToken {
+  text: string;
+  index: number;
+}
+
+export interface PlacementDiagnostics {
+  required: number;
+  placed: number;
+  /** Token indices that found no cell; only non-empty when a page exceeds the board. */
+  unplaced: number[];
+  /** Per row/column cap that was finally in force. */
+  lineCap: number;
+  /** How many times the cap had to be raised to fit every token. */
+  capRaises: number;
+}
+
+/** Most tokens one page may hold: one per cell. */
+export const maxTokensPerPage = (boardSize: number): number => boardSize * boardSize;
+
+/**
+ * Splits a verse's collectible tokens into pages that each fit on the board.
+ * Short verses are a single page; longer ones are cut into even-sized pages.
+ */
+export const paginateVerse = (tokens: VerseToken[], boardSize: number = GRID_SIZE): PlacedToken[][] => {
+  const collectible = tokens
+    .map((token, index) => ({ text: token.text, index }))
+    .filter(({ index }) => tokens[index].collectible);
+  const pageCount = Math.max(1, Math.ceil(collectible.length / maxTokensPerPage(boardSize)));
+  const pageSize = Math.ceil(collectible.length / pageCount);
+  return Array.from({ length: pageCount }, (_, i) => collectible.slice(i * pageSize, (i + 1) * pageSize));
+};
+
 /**
- * Distributes verse characters on the grid.
+ * Distributes one page of verse tokens on the grid; each cell's charIndex
+ * is the token's position in the full token list.
  * It clears existing characters but keeps the 'filled' status of blocks.
+ * Rows and columns are capped to keep tokens spread out; whenever the cap
+ * leaves tokens over it is raised, so every token lands as long as the page
+ * fits on the board.
  */
-export const distributeVerse = (grid: CellData[][], verse: string): void => {
+export const distributeVerse = (grid: CellData[][], chars: PlacedToken[], rng: Rng): PlacementDiagnostics => {
+  const size = grid.length;
   // Clear old characters first
-  for (let y = 0; y < GRID_SIZE; y++) {
-    for (let x = 0; x < GRID_SIZE; x++) {
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
       grid[y][x].char = null;
       grid[y][x].charIndex = null;
       grid[y][x].collected = false;
     }
   }
 
-  const chars = verse.split('');
-  const totalCells = GRID_SIZE * GRID_SIZE;
-  const availableIndices = Array.from({ length: totalCells }, (_, i) => i);
+  const totalCells = size * size;
+  let availableIndices = Array.from({ length: totalCells }, (_, i) => i);
   
   for (let i = availableIndices.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = rng.int(i + 1);
     [availableIndices[i], availableIndices[j]] = [availableIndices[j], availableIndices[i]];
   }
 
-  const maxCharsPerLine = Math.ceil(chars.length / (GRID_SIZE / 2)) + 1;
-  const rowCounts = new Array(GRID_SIZE).fill(0);
-  const colCounts = new Array(GRID_SIZE).fill(0);
+  const baseCap = Math.ceil(chars.length / (size / 2)) + 1;
+  let maxCharsPerLine = baseCap;
+  const rowCounts = new Array(size).fill(0);
+  const colCounts = new Array(size).fill(0);
 
   let placed = 0;
-  for (const idx of availableIndices) {
-    if (placed >= chars.length) break;
+  while (placed < chars.length && availableIndices.length > 0) {
+    const skipped: number[] = [];
+    for (const idx of availableIndices) {
+      if (placed >= chars.length) break;
 
-    const x = idx % GRID_SIZE;
-    const y = Math.floor(idx / GRID_SIZE);
+      const x = idx % size;
+      const y = Math.floor(idx / size);
 
-    if (rowCounts[y] < maxCharsPerLine && colCounts[x] < maxCharsPerLine) {
-      grid[y][x].char = chars[placed];
-      grid[y][x].charIndex = placed;
-      grid[y][x].collected = false;
-      rowCounts[y]++;
-      colCounts[x]++;
-      placed++;
+      if (rowCounts[y] < maxCharsPerLine && colCounts[x] < maxCharsPerLine) {
+        grid[y][x].char = chars[placed].text;
+        grid[y][x].charIndex = chars[placed].index;
+        grid[y][x].collected = false;
+        rowCounts[y]++;
+        colCounts[x]++;
+        placed++;
+      } else {
+        skipped.push(idx);
+      }
     }
+    availableIndices = skipped;
+    if (placed < chars.length) maxCharsPerLine++;
+  }
+
+  return {
+    required: chars.length,
+    placed,
+    unplaced: chars.slice(placed).map(c => c.index),
+    lineCap: maxCharsPerLine,
+    capRaises: maxCharsPerLine - baseCap,
+  };
+};
+
+/** Drops up to `count` locked blocks on empty cells that hold no character. */
+export const placeLockedCells = (grid: CellData[][], count: number, rng: Rng): void => {
+  const free: CellData[] = grid.flat().filter(cell => !cell.filled && cell.charIndex === null);
+  for (let i = 0; i < count && free.length > 0; i++) {
+    const [cell] = free.splice(rng.int(free.length), 1);
+    cell.filled = true;
+    cell.locked = true;
+    cell.color = LOCKED_CELL_COLOR;
   }
 };
 
 export const canPlaceAnywhere = (grid: CellData[][], piece: Piece): boolean => {
   let testPiece = piece;
   for (let r = 0; r < 4; r++) {
-    for (let y = 0; y <= GRID_SIZE - testPiece.shape.length; y++) {
-      for (let x = 0; x <= GRID_SIZE - testPiece.shape[0].length; x++) {
+    for (let y = 0; y <= grid.length - testPiece.shape.length; y++) {
+      for (let x = 0; x <= grid.length - testPiece.shape[0].length; x++) {
         if (!checkCollision(grid, testPiece, { x, y })) {
           return true;
         }
@@ -112,3 +174,94 @@ export const canPlaceAnywhere = (grid: CellData[][], piece: Piece): boolean => {
   }
   return false;
 };
+
+/**
+ * Makes room for a stuck tray: empties the row or column holding the most
+ * removable blocks, again and again, until one of `pieces` fits. Locked
+ * blocks stay and characters under cleared blocks are left uncollected.
+ * Returns the number of blocks removed; 0 when nothing could be removed.
+ */
+export const clearSpace = (grid: CellData[][], pieces: Piece[]): number => {
+  const size = grid.length;
+  const removable = (cell: CellData) => cell.filled && !cell.locked;
+  let removed = 0;
+  while (!pieces.some(p => canPlaceAnywhere(grid, p))) {
+    let best: CellData[] = [];
+    for (let i = 0; i < size; i++) {
+      const row = grid[i].filter(removable);
+      const col = grid.map(r => r[i]).filter(removable);
+      if (row.length > best.length) best = row;
+      if (col.length > best.length) best = col;
+    }
+    if (best.length === 0) break;
+    best.forEach(cell => { cell.filled = false; });
+    removed += best.length;
+  }
+  return removed;
+};
+
+/** Every distinct orientation of the given pieces. */
+const allOrientations = (pieces: Piece[]): Piece[] => {
+  const seen = new Set<string>();
+  const result: Piece[] = [];
+  pieces.forEach(piece => {
+    let testPiece = piece;
+    for (let r = 0; r < 4; r++) {
+      const key = testPiece.shape.map(row => row.join('')).join('/');
+      if (!seen.has(key)) { seen.add(key); result.push(testPiece); }
+      testPiece = rotatePiece(testPiece);
+    }
+  });
+  return result;
+};
+
+/**
+ * Uncollected tokens that can no longer be collected: their row and their
+ * column each keep an empty cell that no piece can cover, even after every
+ * line that can still be completed has been cleared. Returns their charIndex
+ * values; an empty list means the verse can still be finished.
+ */
+export const findBlockedTokens = (grid: CellData[][], pieces: Piece[]): number[] => {
+  const size = grid.length;
+  const orientations = allOrientations(pieces);
+  const filled = grid.map(row => row.map(cell => cell.filled));
+  const board = (): CellData[][] => filled.map(row => row.map(f => ({ filled: f } as CellData)));
+  let current = board();
+  let coverable = new Map<number, boolean>();
+
+  const canCover = (x: number, y: number): boolean => {
+    const key = y * size + x;
+    let result = coverable.get(key);
+    if (result === undefined) {
+      result = orientations.some(piece => piece.shape.some((row, py) => row.some((v, px) =>
+        v === 1 && !checkCollision(current, piece, { x: x - px, y: y - py }))));
+      coverable.set(key, result);
+    }
+    return result;
+  };
+  const line = Array.from({ length: size }, (_, i) => i);
+  const rowOpen = (y: number) => line.every(x => filled[y][x] || canCover(x, y));
+  const colOpen = (x: number) => line.every(y => filled[y][x] || canCover(x, y));
+
+  let blocked: Point[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const cell = grid[y][x];
+      if (cell.charIndex !== null && !cell.collected) blocked.push({ x, y });
+    }
+  }
+  blocked = blocked.filter(({ x, y }) => !rowOpen(y) && !colOpen(x));
+
+  // Clearing the lines that can still be completed may open up holes elsewhere
+  while (blocked.length > 0) {
+    const rows = line.filter(y => filled[y].some(f => f) && rowOpen(y));
+    const cols = line.filter(x => line.some(y => filled[y][x]) && colOpen(x));
+    if (rows.length === 0 && cols.length === 0) break;
+    rows.forEach(y => line.forEach(x => { filled[y][x] = false; }));
+    cols.forEach(x => line.forEach(y => { filled[y][x] = false; }));
+    current = board();
+    coverable = new Map();
+    blocked = blocked.filter(({ x, y }) => !rowOpen(y) && !colOpen(x));
+  }
+  return blocked.map(({ x, y }) => grid[y][x].charIndex!);
+};
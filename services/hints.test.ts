@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty } from '../types';
+import { EngineState, applyMove, createInitialState } from './engine';
+import { evaluateMoves } from './hints';
+
+/** A few positions from a seeded game, past the opening so lines and characters are in reach. */
+const positions = (difficulty: Difficulty): EngineState[] => {
+  let state = createInitialState(11, { language: 'zh', packId: 'classic', verseIndex: 0, difficulty });
+  const seen: EngineState[] = [];
+  for (let i = 0; i < 24 && !state.isGameOver && !state.isRoundClearing; i++) {
+    if (i % 8 === 7) seen.push(state);
+    const [move] = evaluateMoves(state);
+    state = applyMove(state, move.trayIndex, move.rotation, move.pos)!.nextState;
+  }
+  return seen;
+};
+
+describe('evaluateMoves', () => {
+  it.each<Difficulty>(['easy', 'normal', 'hard'])('predicts what each move does on %s', difficulty => {
+    positions(difficulty).forEach(state => {
+      const moves = evaluateMoves(state);
+      expect(moves.length).toBeGreaterThan(0);
+      moves.forEach(move => {
+        const { nextState, events } = applyMove(state, move.trayIndex, move.rotation, move.pos)!;
+        const lines = events.find(ev => ev.type === 'linesCleared');
+        const chars = events.find(ev => ev.type === 'charsCollected');
+        expect(move.linesCleared).toBe(lines ? lines.rows.length + lines.cols.length : 0);
+        expect(move.charsCollected).toBe(chars ? chars.indices.length : 0);
+        expect(move.completesVerse).toBe(events.some(ev => ev.type === 'verseCompleted'));
+        expect(move.gameOver).toBe(nextState.isGameOver);
+      });
+    });
+  });
+
+  it('ranks the best move first', () => {
+    const [state] = positions('normal');
+    const values = evaluateMoves(state).map(m => m.value);
+    expect(values).toEqual([...values].sort((a, b) => b - a));
+  });
+});
@@ -0,0 +1,113 @@
+import { POWER_UP_PIECES } from '../constants';
+import { Piece, Point } from '../types';
+import { canPlaceAnywhere, checkCollision, rotatePiece } from './gameLogic';
+import { EngineState, HINT_COST, createTray, getVersePages, landPiece } from './engine';
+import { createRng } from './random';
+
+/** A legal placement and what it would achieve. */
+export interface MoveEvaluation {
+  trayIndex: number;
+  /** Quarter turns clockwise from the piece as it sits in the tray. */
+  rotation: number;
+  pos: Point;
+  /** The piece as it would land, already rotated. */
+  piece: Piece;
+  linesCleared: number;
+  charsCollected: number;
+  /** The move clears a line, so the combo carries on. */
+  keepsCombo: boolean;
+  /** Pieces left in the tray afterwards that still fit somewhere. */
+  placeableAfter: number;
+  completesVerse: boolean;
+  gameOver: boolean;
+  value: number;
+}
+
+export const MOVE_WEIGHTS = {
+  line: 100,
+  char: 40,
+  combo: 30,
+  placeable: 25,
+  verse: 1000,
+  gameOver: -1000,
+};
+
+const shapeKey = (piece: Piece): string => piece.shape.map(row => row.join('')).join('/');
+
+/**
+ * The tray the next refill deals. It depends on the PRNG and the bag only, so
+ * it is the same whichever placement empties the tray; a power-up earned by
+ * that very placement is not foreseen.
+ */
+const nextRefill = (state: EngineState): Piece[] => {
+  const { pieces } = createTray(createRng(state.rngState), state, state.pieceBag);
+  const powerUp = state.pendingPowerUps[0];
+  if (powerUp) pieces[pieces.length - 1] = { ...POWER_UP_PIECES[powerUp] };
+  return pieces;
+};
+
+/**
+ * Tries every tray piece in every distinct rotation at every position and
+ * returns the legal placements, best first. Candidates are only landed on a
+ * copy of the board rather than played as full moves, which keeps bots fast;
+ * in zen mode a stuck tray is taken to get room cleared, never to end the game.
+ */
+export const evaluateMoves = (state: EngineState, weights = MOVE_WEIGHTS): MoveEvaluation[] => {
+  const moves: MoveEvaluation[] = [];
+  const pages = getVersePages(state, state.boardSize);
+  const page = pages[state.versePage];
+  const isLastPage = state.versePage === pages.length - 1;
+  const refill = nextRefill(state);
+  state.trayPieces.forEach((trayPiece, trayIndex) => {
+    if (!trayPiece) return;
+    const seen = new Set<string>();
+    let piece = trayPiece;
+    for (let rotation = 0; rotation < 4; rotation++, piece = rotatePiece(piece)) {
+      if (seen.has(shapeKey(piece))) continue;
+      seen.add(shapeKey(piece));
+      for (let y = 0; y <= state.grid.length - piece.shape.length; y++) {
+        for (let x = 0; x <= state.grid.length - piece.shape[0].length; x++) {
+          if (checkCollision(state.grid, piece, { x, y })) continue;
+          const { grid, rows, cols, collected } = landPiece(state.grid, piece, { x, y });
+          const linesCleared = rows.length + cols.length;
+          const charsCollected = collected.length;
+          const completesVerse = isLastPage && page.every(t => state.collectedIndices.has(t.index) || collected.includes(t.index));
+          const left = state.trayPieces.map((p, i) => (i === trayIndex ? null : p));
+          const trayPieces = left.every(p => p === null) ? refill : left;
+          const placeableAfter = trayPieces.filter(p => p && canPlaceAnywhere(grid, p)).length;
+          const gameOver = !completesVerse && state.mode !== 'zen' && placeableAfter === 0 && trayPieces.some(p => p !== null);
+          const keepsCombo = linesCleared > 0;
+          const value =
+            linesCleared * weights.line +
+            charsCollected * weights.char +
+            (keepsCombo ? weights.combo : 0) +
+            placeableAfter * weights.placeable +
+            (completesVerse ? weights.verse : 0) +
+            (gameOver ? weights.gameOver : 0);
+          moves.push({ trayIndex, rotation, pos: { x, y }, piece, linesCleared, charsCollected, keepsCombo, placeableAfter, completesVerse, gameOver, value });
+        }
+      }
+    }
+  });
+  return moves.sort((a, b) => b.value - a.value);
+};
+
+export const canTakeHint = (state: EngineState): boolean =>
+  !state.isGameOver &&
+  !state.isRoundClearing &&
+  state.hintsUsed < state.hintLimit &&
+  state.score >= HINT_COST;
+
+/**
+ * Charges for a hint and returns the suggested move. Returns null when no
+ * hint can be bought or no piece fits; nothing is charged then.
+ */
+export const takeHint = <S extends EngineState>(state: S): { state: S; move: MoveEvaluation } | null => {
+  if (!canTakeHint(state)) return null;
+  const [move] = evaluateMoves(state);
+  if (!move) return null;
+  return {
+    state: { ...state, score: state.score - HINT_COST, hintsUsed: state.hintsUsed + 1 },
+    move,
+  };
+};
@@ -7,16 +7,128 @@ export const lang_en = {
   menu_record: "Eternal Record",
   btn_continue: "CONTINUE",
   btn_new_game: "NEW GAME",
+  btn_daily: "DAILY",
+  daily_done: "Come back tomorrow",
+  daily_streak: "Streak",
+  daily_today: "Today",
+  daily_unfinished: "unfinished",
+  daily_complete_title: "Daily Verse Complete!",
+  btn_collection: "VERSE COLLECTION",
+  btn_back: "Back",
+  collection_title: "Collection",
+  collection_progress: "Verses Collected",
+  collection_locked: "Locked",
+  pack_label: "Verse Pack",
+  pack_classic: "Classic Verses",
+  btn_import_pack: "Import",
+  btn_stats: "Stats",
+  stats_title: "Statistics",
+  stats_lifetime: "Lifetime",
+  stats_last_game: "Last game",
+  stats_games: "Games",
+  stats_pieces: "Pieces",
+  stats_best_combo: "Best combo",
+  stats_verses: "Verses",
+  stats_moves_per_verse: "Moves / verse",
+  stats_time: "Time played",
+  stats_pieces_by_type: "Pieces by type",
+  stats_lines_by_row: "Lines cleared by row",
+  stats_lines_by_col: "Lines cleared by column",
+  stats_empty: "Nothing yet",
+  btn_badges: "Badges",
+  badges_title: "Badges",
+  badges_locked: "Locked",
+  badge_unlocked: "Badge unlocked",
+  achievement_first_verse: "First Verse",
+  achievement_first_verse_desc: "Complete your first verse",
+  achievement_verses_25: "Scripture Collector",
+  achievement_verses_25_desc: "Complete 25 different verses",
+  achievement_four_lines: "Clean Sweep",
+  achievement_four_lines_desc: "Clear 4 lines at once",
+  achievement_combo_10: "On Fire",
+  achievement_combo_10_desc: "Reach a x10 combo",
+  achievement_in_order: "Word by Word",
+  achievement_in_order_desc: "Collect a whole verse in reading order",
+  achievement_book_philippians: "Philippians",
+  achievement_book_philippians_desc: "Complete every verse from Philippians",
+  achievement_streak_7: "Faithful Week",
+  achievement_streak_7_desc: "Play the daily challenge 7 days in a row",
+  btn_profiles: "Players",
+  profiles_title: "Players",
+  profile_default_name: "Player",
+  profile_name: "Name",
+  btn_add_profile: "Add player",
+  btn_delete: "Delete",
+  profiles_compare: "Side by side",
+  profiles_verses: "Verses collected",
+  profiles_memorized: "Recited perfectly",
+  profiles_daily_streak: "Best daily streak",
+  btn_export_backup: "Export progress",
+  btn_import_backup: "Import progress",
+  backup_imported: "Progress imported and merged",
+  backup_import_failed: "Could not import progress",
+  session_load_failed: "Saved game could not be restored",
+  pack_import_failed: "Could not import pack",
+  memorize_label: "Memorize",
+  memorize_off: "Off",
+  memorize_order: "Order words",
+  memorize_blanks: "Fill blanks",
+  memorize_order_title: "Rebuild the Verse",
+  memorize_blanks_title: "Fill in the Blanks",
+  memorize_accuracy: "Accuracy",
+  memorize_time: "Time",
+  btn_next_verse: "Next Verse",
+  btn_skip: "Skip",
+  btn_hint: "Hint",
+  difficulty_label: "Difficulty",
+  difficulty_easy: "Easy",
+  difficulty_normal: "Normal",
+  difficulty_hard: "Hard",
+  mode_label: "Mode",
+  mode_classic: "Classic",
+  mode_timed: "Timed",
+  mode_zen: "Zen",
+  mode_minutes: "min",
+  time_up_title: "Time's Up!",
+  zen_space_cleared: "Room made",
+  btn_reshuffle: "Reshuffle",
+  verse_blocked: "Part of the verse can no longer be reached.",
+  btn_replays: "Replays",
+  replays_title: "Replays",
+  replays_empty: "Finished games show up here.",
+  replay_paste: "Paste a share string",
+  replay_file: "File",
+  replay_import_failed: "Could not open replay",
+  replay_unplayable: "This replay cannot be played back",
+  replay_moves: "moves",
+  replay_step: "Move",
+  replay_copied: "Copied!",
+  btn_play: "Play",
+  btn_pause: "Pause",
+  btn_export: "Export File",
+  btn_copy_share: "Copy Share String",
   hud_high: "High",
   hud_score: "Score",
   hud_combo: "Combo",
   victory_title: "Scripture Revealed!",
+  summary_moves: "moves",
+  summary_total: "Total",
+  score_placement: "Blocks placed",
+  score_lines: "Lines cleared",
+  score_powerUp: "Power-ups",
+  score_inOrder: "In order",
+  score_phrase: "Phrase complete",
+  score_efficiency: "Quick finish",
   game_over_title: "Faith Tested",
   game_over_final_score: "Final Score",
   game_over_new_record: "New Personal Record!",
   btn_try_again: "TRY AGAIN",
   btn_main_menu: "Main Menu",
   btn_rotate: "Rotate Block",
+  btn_undo: "Undo",
+  undo_unlimited: "Unlimited",
+  undo_off: "Off",
+  undo_per_verse: "per verse",
   btn_confirm: "Confirm Place",
   btn_home: "Home Menu",
 };
@@ -27,16 +139,128 @@ export const lang_zh = {
   menu_record: "最高紀錄",
   btn_continue: "繼續遊戲",
   btn_new_game: "開始新局",
+  btn_daily: "每日挑戰",
+  daily_done: "明天再來",
+  daily_streak: "連續天數",
+  daily_today: "今日",
+  daily_unfinished: "未完成",
+  daily_complete_title: "完成每日經文！",
+  btn_collection: "經文收藏",
+  btn_back: "返回",
+  collection_title: "經文收藏",
+  collection_progress: "已收集經文",
+  collection_locked: "未解鎖",
+  pack_label: "經文包",
+  pack_classic: "經典經文",
+  btn_import_pack: "匯入",
+  btn_stats: "統計",
+  stats_title: "統計",
+  stats_lifetime: "累計",
+  stats_last_game: "上一局",
+  stats_games: "局數",
+  stats_pieces: "方塊",
+  stats_best_combo: "最高連擊",
+  stats_verses: "經文",
+  stats_moves_per_verse: "每節步數",
+  stats_time: "遊戲時間",
+  stats_pieces_by_type: "各類方塊",
+  stats_lines_by_row: "各行消除次數",
+  stats_lines_by_col: "各列消除次數",
+  stats_empty: "尚無資料",
+  btn_badges: "徽章",
+  badges_title: "徽章",
+  badges_locked: "未解鎖",
+  badge_unlocked: "獲得徽章",
+  achievement_first_verse: "初嘗主道",
+  achievement_first_verse_desc: "完成第一節經文",
+  achievement_verses_25: "經文收藏家",
+  achievement_verses_25_desc: "完成 25 節不同的經文",
+  achievement_four_lines: "一掃而空",
+  achievement_four_lines_desc: "一次消除 4 行",
+  achievement_combo_10: "火熱連擊",
+  achievement_combo_10_desc: "達成 x10 連擊",
+  achievement_in_order: "字字珠璣",
+  achievement_in_order_desc: "依閱讀順序收集整節經文",
+  achievement_book_philippians: "腓立比書",
+  achievement_book_philippians_desc: "完成腓立比書的所有經文",
+  achievement_streak_7: "忠心一週",
+  achievement_streak_7_desc: "連續 7 天完成每日挑戰",
+  btn_profiles: "玩家",
+  profiles_title: "玩家",
+  profile_default_name: "玩家",
+  profile_name: "名字",
+  btn_add_profile: "新增玩家",
+  btn_delete: "刪除",
+  profiles_compare: "進度比較",
+  profiles_verses: "已收集經文",
+  profiles_memorized: "完美背誦",
+  profiles_daily_streak: "最長每日連續",
+  btn_export_backup: "匯出進度",
+  btn_import_backup: "匯入進度",
+  backup_imported: "已匯入並合併進度",
+  backup_import_failed: "無法匯入進度",
+  session_load_failed: "無法恢復已儲存的遊戲",
+  pack_import_failed: "無法匯入經文包",
+  memorize_label: "背誦練習",
+  memorize_off: "關閉",
+  memorize_order: "排列字詞",
+  memorize_blanks: "填空",
+  memorize_order_title: "重組經文",
+  memorize_blanks_title: "經文填空",
+  memorize_accuracy: "正確率",
+  memorize_time: "用時",
+  btn_next_verse: "下一節",
+  btn_skip: "略過",
+  btn_hint: "提示",
+  difficulty_label: "難度",
+  difficulty_easy: "簡單",
+  difficulty_normal: "普通",
+  difficulty_hard: "困難",
+  mode_label: "模式",
+  mode_classic: "經典",
+  mode_timed: "限時",
+  mode_zen: "禪意",
+  mode_minutes: "分鐘",
+  time_up_title: "時間到！",
+  zen_space_cleared: "騰出空間",
+  btn_reshuffle: "重新洗牌",
+  verse_blocked: "經文有字已無法收集。",
+  btn_replays: "重播",
+  replays_title: "遊戲重播",
+  replays_empty: "完成的遊戲會顯示在這裡。",
+  replay_paste: "貼上分享碼",
+  replay_file: "檔案",
+  replay_import_failed: "無法開啟重播",
+  replay_unplayable: "此重播無法播放",
+  replay_moves: "步",
+  replay_step: "步數",
+  replay_copied: "已複製！",
+  btn_play: "播放",
+  btn_pause: "暫停",
+  btn_export: "匯出檔案",
+  btn_copy_share: "複製分享碼",
   hud_high: "最高",
   hud_score: "分數",
   hud_combo: "連擊",
   victory_title: "經文已顯現！",
+  summary_moves: "步",
+  summary_total: "總計",
+  score_placement: "放置方塊",
+  score_lines: "消除行列",
+  score_powerUp: "道具",
+  score_inOrder: "依序收集",
+  score_phrase: "完成短句",
+  score_efficiency: "快速完成",
   game_over_title: "信心考驗",
   game_over_final_score: "最終分數",
   game_over_new_record: "創下個人新紀錄！",
   btn_try_again: "再試一次",
   btn_main_menu: "返回主選單",
   btn_rotate: "旋轉方塊",
+  btn_undo: "復原",
+  undo_unlimited: "無限",
+  undo_off: "關閉",
+  undo_per_verse: "次／每節",
   btn_confirm: "確認放置",
   btn_home: "主選單",
 };
@@ -0,0 +1,111 @@
+import { VerseToken } from './tokenizer';
+import { Rng } from './random';
+
+/**
+ * `order`: every collectible token is shuffled and the verse is rebuilt from
+ * start to finish. `blanks`: only some tokens are hidden and must be filled.
+ */
+export type MemorizationStyle = 'off' | 'order' | 'blanks';
+
+export const MEMORIZATION_STYLES: MemorizationStyle[] = ['off', 'order', 'blanks'];
+
+/** Share of collectible tokens hidden in `blanks` style. */
+const BLANK_RATIO = 0.35;
+const POINTS_PER_TOKEN = 20;
+
+export interface MemorizationChoice {
+  id: number;
+  text: string;
+}
+
+export interface MemorizationChallenge {
+  style: Exclude<MemorizationStyle, 'off'>;
+  /** Token indices to fill, in reading order. */
+  slots: number[];
+  choices: MemorizationChoice[];
+}
+
+export interface MemorizationProgress {
+  /** How many slots have been filled correctly. */
+  filled: number;
+  mistakes: number;
+  /** Choices still available to pick from. */
+  remaining: MemorizationChoice[];
+}
+
+export interface MemorizationResult {
+  accuracy: number;
+  timeMs: number;
+  points: number;
+}
+
+const shuffle = <T>(items: T[], rng: Rng): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const createChallenge = (
+  tokens: VerseToken[],
+  style: Exclude<MemorizationStyle, 'off'>,
+  rng: Rng
+): MemorizationChallenge => {
+  const collectible = tokens.map((t, i) => i).filter(i => tokens[i].collectible);
+  let slots = collectible;
+  if (style === 'blanks') {
+    const count = Math.max(1, Math.round(collectible.length * BLANK_RATIO));
+    slots = shuffle(collectible, rng).slice(0, count).sort((a, b) => a - b);
+  }
+  const choices = shuffle(slots.map((index, id) => ({ id, text: tokens[index].text })), rng);
+  return { style, slots, choices };
+};
+
+export const startProgress = (challenge: MemorizationChallenge): MemorizationProgress => ({
+  filled: 0,
+  mistakes: 0,
+  remaining: challenge.choices,
+});
+
+/**
+ * Tries `choiceId` for the next empty slot. Repeated words are interchangeable,
+ * so a choice is right whenever its text matches the expected token.
+ */
+export const answerChallenge = (
+  challenge: MemorizationChallenge,
+  tokens: VerseToken[],
+  progress: MemorizationProgress,
+  choiceId: number
+): { progress: MemorizationProgress; correct: boolean } => {
+  const choice = progress.remaining.find(c => c.id === choiceId);
+  const expected = tokens[challenge.slots[progress.filled]];
+  if (!choice || !expected) return { progress, correct: false };
+  if (choice.text !== expected.text) {
+    return { progress: { ...progress, mistakes: progress.mistakes + 1 }, correct: false };
+  }
+  return {
+    progress: { ...progress, filled: progress.filled + 1, remaining: progress.remaining.filter(c => c !== choice) },
+    correct: true,
+  };
+};
+
+export const isChallengeComplete = (challenge: MemorizationChallenge, progress: MemorizationProgress): boolean =>
+  progress.filled >= challenge.slots.length;
+
+/**
+ * Accuracy is correct picks over all picks. Points reward accuracy and fade
+ * to half once the player takes longer than two seconds per slot.
+ */
+export const scoreChallenge = (
+  challenge: MemorizationChallenge,
+  progress: MemorizationProgress,
+  timeMs: number
+): MemorizationResult => {
+  const slots = challenge.slots.length;
+  const accuracy = slots / (slots + progress.mistakes);
+  const targetMs = slots * 2000;
+  const speed = timeMs <= targetMs ? 1 : Math.max(0.5, targetMs / timeMs);
+  return { accuracy, timeMs, points: Math.round(slots * POINTS_PER_TOKEN * accuracy * speed) };
+};
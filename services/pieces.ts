@@ -0,0 +1,36 @@
+import { PIECES } from '../constants';
+import { Piece, PieceDistribution, PieceId } from '../types';
+import { Rng } from './random';
+
+export const getPiece = (id: PieceId): Piece => ({ ...PIECES[id] });
+
+/** Every piece a distribution can deal. */
+export const distributionPieceIds = (distribution: PieceDistribution): PieceId[] =>
+  distribution.kind === 'bag'
+    ? Array.from(new Set(distribution.pieces))
+    : (Object.keys(distribution.weights) as PieceId[]).filter(id => (distribution.weights[id] ?? 0) > 0);
+
+const shuffle = <T>(items: T[], rng: Rng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Draws the next piece. `bag` is what is left of the current bag; it is only
+ * used by bag distributions, and the returned bag replaces it.
+ */
+export const drawPiece = (rng: Rng, distribution: PieceDistribution, bag: PieceId[]): { piece: Piece; bag: PieceId[] } => {
+  if (distribution.kind === 'bag') {
+    const next = bag.length > 0 ? bag : shuffle(distribution.pieces, rng);
+    return { piece: getPiece(next[0]), bag: next.slice(1) };
+  }
+  const ids = distributionPieceIds(distribution);
+  const total = ids.reduce((sum, id) => sum + distribution.weights[id]!, 0);
+  let roll = rng.next() * total;
+  const id = ids.find(id => (roll -= distribution.weights[id]!) < 0) ?? ids[ids.length - 1];
+  return { piece: getPiece(id), bag };
+};
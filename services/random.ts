@@ -0,0 +1,30 @@
+/**
+ * Small seeded PRNG (mulberry32). Every random decision in a game goes
+ * through one of these so that a seed alone reproduces the whole run.
+ */
+export interface Rng {
+  /** Float in [0, 1). */
+  next: () => number;
+  /** Integer in [0, max). */
+  int: (max: number) => number;
+  /** Current internal state; feed it back to createRng to resume. */
+  getState: () => number;
+}
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (max: number) => Math.floor(next() * max),
+    getState: () => s,
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
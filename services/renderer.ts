@@ -0,0 +1,149 @@
+import { CellData, Piece, Point, PowerUp } from '../types';
+
+// Logical dimensions are in board cells; the board is as wide as it is tall
+export const TRAY_GAP = 0.5;
+export const LOGICAL_TRAY_H = 2.5;
+
+/** Board and tray dimensions of the game being drawn. */
+export interface BoardLayout {
+  boardSize: number;
+  traySize: number;
+}
+
+const totalLogicalHeight = ({ boardSize }: BoardLayout): number => boardSize + TRAY_GAP + LOGICAL_TRAY_H;
+
+/** What the board renderer needs; the live game and the replay viewer both provide it. */
+export interface BoardView extends BoardLayout {
+  grid: CellData[][];
+  trayPieces: (Piece | null)[];
+  activePieceIndex: number | null;
+  currentPiecePos: Point;
+  isRoundClearing: boolean;
+  /** Suggested placement drawn as an outline on the board. */
+  hint?: { piece: Piece; pos: Point } | null;
+  /** Token a lamp has revealed. */
+  litIndex?: number | null;
+}
+
+export const POWER_UP_ICONS: Record<PowerUp, string> = { bomb: '💣', sweeper: '✚', lamp: '💡' };
+
+const drawPowerUpIcon = (ctx: CanvasRenderingContext2D, powerUp: PowerUp, cx: number, cy: number, cell: number) => {
+  ctx.fillStyle = '#ffffff'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+  ctx.font = `bold ${cell * 0.6}px sans-serif`;
+  ctx.fillText(POWER_UP_ICONS[powerUp], cx, cy);
+};
+
+/** Size of one cell of a tray piece; pieces too big for their slot are drawn smaller. */
+export const getTrayCellSize = (piece: Piece, layout: BoardLayout): number =>
+  Math.min(1, (layout.boardSize / layout.traySize - 0.2) / piece.shape[0].length, (LOGICAL_TRAY_H - 0.2) / piece.shape.length);
+
+export const getTrayPiecePos = (index: number, piece: Piece, layout: BoardLayout): Point => {
+  const sectionWidth = layout.boardSize / layout.traySize;
+  const cell = getTrayCellSize(piece, layout);
+  return {
+    x: (index * sectionWidth) + (sectionWidth - piece.shape[0].length * cell) / 2,
+    y: layout.boardSize + TRAY_GAP + (LOGICAL_TRAY_H - piece.shape.length * cell) / 2
+  };
+};
+
+export const getScaleInfo = (canvas: HTMLCanvasElement | null, layout: BoardLayout) => {
+  if (!canvas) return { scale: 1, offsetX: 0, offsetY: 0 };
+  const rect = canvas.getBoundingClientRect();
+  const totalHeight = totalLogicalHeight(layout);
+  const scale = Math.min(rect.width / layout.boardSize, rect.height / totalHeight);
+  const offsetX = (rect.width - (layout.boardSize * scale)) / 2;
+  const offsetY = (rect.height - (totalHeight * scale)) / 2;
+  return { scale, offsetX, offsetY };
+};
+
+/**
+ * Sizes the canvas for the device pixel ratio, clears it and moves the origin
+ * to the board's top-left corner. The caller must `ctx.restore()` when done.
+ */
+export const beginFrame = (canvas: HTMLCanvasElement, layout: BoardLayout): { ctx: CanvasRenderingContext2D; scale: number } => {
+  const dpr = window.devicePixelRatio || 1;
+  const rect = canvas.getBoundingClientRect();
+  const { scale, offsetX, offsetY } = getScaleInfo(canvas, layout);
+
+  if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
+    canvas.width = rect.width * dpr; canvas.height = rect.height * dpr;
+  }
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.save(); ctx.scale(dpr, dpr); ctx.clearRect(0, 0, rect.width, rect.height);
+  ctx.translate(offsetX, offsetY);
+  return { ctx, scale };
+};
+
+/** Draws the board, its verse characters, the tray and the piece being placed. */
+export const drawBoard = (ctx: CanvasRenderingContext2D, view: BoardView, scale: number): void => {
+  const size = view.boardSize;
+  ctx.fillStyle = '#f8fafc'; 
+  ctx.fillRect(0, 0, size * scale, size * scale);
+
+  ctx.strokeStyle = '#e2e8f0'; ctx.lineWidth = 1;
+  for(let i=0; i<=size; i++) {
+      ctx.beginPath(); ctx.moveTo(i * scale, 0); ctx.lineTo(i * scale, size * scale); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(0, i * scale); ctx.lineTo(size * scale, i * scale); ctx.stroke();
+  }
+
+  ctx.fillStyle = '#f1f5f9';
+  ctx.fillRect(0, (size + TRAY_GAP) * scale, size * scale, LOGICAL_TRAY_H * scale);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const cell = view.grid[y][x];
+      if (cell.filled) { ctx.fillStyle = cell.color || '#cbd5e1'; ctx.fillRect(x * scale + 1, y * scale + 1, scale - 2, scale - 2); }
+      if (cell.locked) { ctx.strokeStyle = '#334155'; ctx.lineWidth = 2; ctx.strokeRect(x * scale + scale * 0.2, y * scale + scale * 0.2, scale * 0.6, scale * 0.6); }
+      if (cell.char) {
+        const lit = !cell.collected && cell.charIndex === view.litIndex;
+        const ok = cell.collected || view.isRoundClearing || lit;
+        if (lit) { ctx.fillStyle = 'rgba(250, 204, 21, 0.45)'; ctx.beginPath(); ctx.arc((x + 0.5) * scale, (y + 0.5) * scale, scale * 0.45, 0, Math.PI * 2); ctx.fill(); }
+        if (ok) {
+          ctx.fillStyle = lit ? '#b45309' : '#0ea5e9'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+          let fontSize = Math.max(12, scale * 0.55);
+          ctx.font = `bold ${fontSize}px sans-serif`;
+          // Whole words have to shrink to fit inside a single cell
+          const width = ctx.measureText(cell.char).width;
+          if (width > scale * 0.9) { fontSize = fontSize * (scale * 0.9) / width; ctx.font = `bold ${fontSize}px sans-serif`; }
+          ctx.fillText(cell.char, (x + 0.5) * scale, (y + 0.5) * scale);
+        }
+        else { ctx.fillStyle = '#e2e8f0'; ctx.beginPath(); ctx.arc((x + 0.5) * scale, (y + 0.5) * scale, scale * 0.1, 0, Math.PI * 2); ctx.fill(); }
+      }
+    }
+  }
+
+  if (view.hint) {
+    const { piece, pos } = view.hint;
+    ctx.globalAlpha = 0.35; ctx.fillStyle = piece.color;
+    piece.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.fillRect((pos.x + px) * scale + 3, (pos.y + py) * scale + 3, scale - 6, scale - 6)));
+    ctx.globalAlpha = 1.0; ctx.strokeStyle = piece.color; ctx.lineWidth = 2; ctx.setLineDash([4, 3]);
+    piece.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.strokeRect((pos.x + px) * scale + 3, (pos.y + py) * scale + 3, scale - 6, scale - 6)));
+    ctx.setLineDash([]);
+  }
+
+  view.trayPieces.forEach((p, i) => {
+    if (!p || view.activePieceIndex === i) return;
+    const pos = getTrayPiecePos(i, p, view);
+    const cell = getTrayCellSize(p, view) * scale;
+    ctx.fillStyle = p.color;
+    p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.fillRect(pos.x * scale + px * cell + 2, pos.y * scale + py * cell + 2, cell - 4, cell - 4)));
+    if (p.powerUp) drawPowerUpIcon(ctx, p.powerUp, pos.x * scale + cell / 2, pos.y * scale + cell / 2, cell);
+  });
+
+  if (view.activePieceIndex !== null) {
+    const p = view.trayPieces[view.activePieceIndex]!;
+    const pos = view.currentPiecePos;
+    const snapX = Math.round(pos.x); const snapY = Math.round(pos.y);
+    if (snapY < size && snapX >= 0 && snapX <= size - p.shape[0].length && snapY >= 0 && snapY <= size - p.shape.length) {
+      ctx.globalAlpha = 0.25; ctx.fillStyle = p.color;
+      p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.fillRect((snapX + px) * scale, (snapY + py) * scale, scale, scale)));
+      ctx.globalAlpha = 1.0;
+    }
+    ctx.shadowBlur = 10; ctx.shadowColor = 'rgba(0,0,0,0.2)'; ctx.fillStyle = p.color;
+    p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.fillRect((pos.x + px) * scale + 1, (pos.y + py) * scale + 1, scale - 2, scale - 2)));
+    ctx.strokeStyle = '#0ea5e9'; ctx.lineWidth = 2; ctx.shadowBlur = 0;
+    p.shape.forEach((row, py) => row.forEach((v, px) => v && ctx.strokeRect((pos.x + px) * scale + 1, (pos.y + py) * scale + 1, scale - 2, scale - 2)));
+    if (p.powerUp) drawPowerUpIcon(ctx, p.powerUp, (pos.x + 0.5) * scale, (pos.y + 0.5) * scale, scale);
+  }
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { SAMPLE_VERSES } from '../constants';
+import { Replay } from '../types';
+import { createInitialState } from './engine';
+import { evaluateMoves } from './hints';
+import { ReplayError, createReplay, decodeReplay, encodeReplay, parseReplay, recordAction, replayStates, stepReplay } from './replay';
+
+/** A replay of two hinted moves on the first classic verse. */
+const recordGame = (): Replay => {
+  let state = createInitialState(7, { language: 'en', packId: 'classic', verseIndex: 0 });
+  let replay = createReplay(state);
+  for (let i = 0; i < 2; i++) {
+    const [move] = evaluateMoves(state);
+    replay = recordAction(replay, [move.trayIndex, move.rotation, move.pos.x, move.pos.y]);
+    state = replayStates(replay)[replay.actions.length];
+  }
+  return replay;
+};
+
+describe('decodeReplay', () => {
+  it('reads back a share string and the exported file', () => {
+    const replay = recordGame();
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+    expect(decodeReplay(JSON.stringify(replay))).toEqual(replay);
+  });
+});
+
+describe('parseReplay', () => {
+  it.each([
+    ['a pack that is not installed', { packId: 'removed-pack' }, 'The verse pack "removed-pack" is not installed'],
+    ['a verse outside the pack', { verseIndex: 80 }, `"verseIndex" must be a verse of the pack, 0 to ${SAMPLE_VERSES.length - 1}`],
+    ['a next verse outside the pack', { actions: [['n', 999, 0]] }, 'actions[0] starts a verse the pack does not have'],
+  ])('rejects %s before it can be saved or played', (_, changes, message) => {
+    expect(() => parseReplay({ ...recordGame(), ...changes })).toThrow(new ReplayError(message));
+  });
+});
+
+describe('stepReplay', () => {
+  it('ignores a next verse while the verse is still being played', () => {
+    const [state] = replayStates(recordGame());
+    expect(stepReplay(state, ['n', 3, 500])).toBe(state);
+  });
+
+  it('moves on once the verse is cleared', () => {
+    const [state] = replayStates(recordGame());
+    const next = stepReplay({ ...state, isRoundClearing: true }, ['n', 3, 500]);
+    expect(next).toMatchObject({ currentVerseIndex: 3, score: state.score + 500, isRoundClearing: false });
+  });
+});
@@ -0,0 +1,181 @@
+import { DIFFICULTY_PRESETS, GAME_MODES } from '../constants';
+import { Difficulty, GameMode, Replay, ReplayAction } from '../types';
+import {
+  EngineState,
+  applyMove,
+  createInitialState,
+  reshuffleVerse,
+  rotateTrayPiece,
+  startNextVerse,
+  undoMove
+} from './engine';
+import { takeHint } from './hints';
+import { loadReplayFiles, saveReplayFiles } from './storage';
+import { getVersePack } from './versePacks';
+
+export const REPLAY_VERSION = 1;
+const SHARE_PREFIX = 'BB1:';
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+export const createReplay = (state: EngineState): Replay => ({
+  version: REPLAY_VERSION,
+  seed: state.seed,
+  packId: state.packId,
+  language: state.language,
+  verseIndex: state.currentVerseIndex,
+  undoLimit: state.undoLimit,
+  difficulty: state.difficulty,
+  mode: state.mode,
+  recordedAt: new Date().toISOString(),
+  finalScore: null,
+  actions: [],
+});
+
+export const recordAction = (replay: Replay, action: ReplayAction): Replay => ({
+  ...replay,
+  actions: [...replay.actions, action],
+});
+
+/** Applies one action; a move the engine rejects leaves the state as it was. */
+export const stepReplay = (state: EngineState, action: ReplayAction): EngineState => {
+  switch (action[0]) {
+    case 'r':
+      return rotateTrayPiece(state, action[1]);
+    case 'u':
+      return undoMove(state) ?? state;
+    case 'h':
+      return takeHint(state)?.state ?? state;
+    case 's':
+      return reshuffleVerse(state) ?? state;
+    case 'n':
+      // Only a cleared verse moves on; anything else would skip verses mid-round
+      return state.isRoundClearing ? startNextVerse({ ...state, score: state.score + action[2] }, action[1]) : state;
+    default: {
+      const [trayIndex, rotation, x, y] = action;
+      return applyMove(state, trayIndex, rotation, { x, y })?.nextState ?? state;
+    }
+  }
+};
+
+/** Every state of the game: the opening position followed by one per action. */
+export const replayStates = (replay: Replay): EngineState[] => {
+  let state = createInitialState(replay.seed, {
+    language: replay.language,
+    packId: replay.packId,
+    verseIndex: replay.verseIndex,
+    undoLimit: replay.undoLimit,
+    difficulty: replay.difficulty ?? 'normal',
+    mode: replay.mode ?? 'classic',
+  });
+  const states = [state];
+  for (const action of replay.actions) {
+    state = stepReplay(state, action);
+    states.push(state);
+  }
+  return states;
+};
+
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+
+const isAction = (a: unknown): a is ReplayAction => {
+  if (!Array.isArray(a)) return false;
+  if (a[0] === 'r') return a.length === 2 && isInt(a[1]);
+  if (a[0] === 'u' || a[0] === 'h' || a[0] === 's') return a.length === 1;
+  if (a[0] === 'n') return a.length === 3 && isInt(a[1]) && isInt(a[2]);
+  return a.length === 4 && a.every(isInt);
+};
+
+export const parseReplay = (data: unknown): Replay => {
+  if (typeof data !== 'object' || data === null) throw new ReplayError('A replay must be a JSON object');
+  const r = data as Record<string, unknown>;
+  if (r.version !== REPLAY_VERSION) throw new ReplayError(`Unsupported replay version: ${String(r.version)}`);
+  if (!isInt(r.seed)) throw new ReplayError('"seed" must be an integer');
+  if (typeof r.packId !== 'string') throw new ReplayError('"packId" must be a string');
+  const pack = getVersePack(r.packId);
+  if (!pack) throw new ReplayError(`The verse pack "${r.packId}" is not installed`);
+  const isVerse = (index: number) => index >= 0 && index < pack.verses.length;
+  if (r.language !== 'en' && r.language !== 'zh') throw new ReplayError('"language" must be "en" or "zh"');
+  if (!isInt(r.verseIndex) || !isVerse(r.verseIndex)) {
+    throw new ReplayError(`"verseIndex" must be a verse of the pack, 0 to ${pack.verses.length - 1}`);
+  }
+  if (r.undoLimit !== null && !isInt(r.undoLimit)) throw new ReplayError('"undoLimit" must be an integer or null');
+  if (r.difficulty !== undefined && !(typeof r.difficulty === 'string' && r.difficulty in DIFFICULTY_PRESETS)) {
+    throw new ReplayError(`Unknown difficulty: ${String(r.difficulty)}`);
+  }
+  if (r.mode !== undefined && !GAME_MODES.includes(r.mode as GameMode)) throw new ReplayError(`Unknown mode: ${String(r.mode)}`);
+  if (!Array.isArray(r.actions)) throw new ReplayError('"actions" must be a list');
+  const bad = r.actions.findIndex(a => !isAction(a));
+  if (bad !== -1) throw new ReplayError(`actions[${bad}] is not a valid move`);
+  const badVerse = (r.actions as ReplayAction[]).findIndex(a => a[0] === 'n' && !isVerse(a[1]));
+  if (badVerse !== -1) throw new ReplayError(`actions[${badVerse}] starts a verse the pack does not have`);
+  return {
+    version: REPLAY_VERSION,
+    seed: r.seed,
+    packId: r.packId,
+    language: r.language,
+    verseIndex: r.verseIndex,
+    undoLimit: r.undoLimit as number | null,
+    difficulty: (r.difficulty as Difficulty | undefined) ?? 'normal',
+    mode: (r.mode as GameMode | undefined) ?? 'classic',
+    recordedAt: typeof r.recordedAt === 'string' ? r.recordedAt : new Date(0).toISOString(),
+    finalScore: isInt(r.finalScore) ? r.finalScore : null,
+    actions: r.actions as ReplayAction[],
+  };
+};
+
+/** Finished games kept on the device, newest first. */
+export const MAX_SAVED_REPLAYS = 20;
+
+export const loadSavedReplays = (): Replay[] =>
+  loadReplayFiles().flatMap(file => {
+    try {
+      return [parseReplay(file)];
+    } catch (e) {
+      return [];
+    }
+  });
+
+export const saveReplay = (replay: Replay) => {
+  saveReplayFiles([replay, ...loadReplayFiles()].slice(0, MAX_SAVED_REPLAYS));
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+/** Share string: a prefix plus the replay JSON in URL-safe base64. */
+export const encodeReplay = (replay: Replay): string => SHARE_PREFIX + toBase64Url(JSON.stringify(replay));
+
+/** Accepts either a share string or the exported JSON file's contents. */
+export const decodeReplay = (input: string): Replay => {
+  const text = input.trim();
+  let json = text;
+  if (text.startsWith(SHARE_PREFIX)) {
+    try {
+      json = fromBase64Url(text.slice(SHARE_PREFIX.length));
+    } catch (e) {
+      throw new ReplayError('The share string is damaged');
+    }
+  }
+  try {
+    return parseReplay(JSON.parse(json));
+  } catch (e) {
+    if (e instanceof ReplayError) throw e;
+    throw new ReplayError('Not a replay file or share string');
+  }
+};
@@ -0,0 +1,71 @@
+import { ReviewCard, Verse } from '../types';
+import { Rng } from './random';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/** Recall quality on the SM-2 scale: 0 = blackout … 5 = perfect. */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** Quality credited for clearing a verse on the board without a memorization step. */
+export const COMPLETION_QUALITY: ReviewQuality = 4;
+
+export const qualityFromAccuracy = (accuracy: number): ReviewQuality => {
+  if (accuracy >= 0.95) return 5;
+  if (accuracy >= 0.8) return 4;
+  if (accuracy >= 0.6) return 3;
+  if (accuracy >= 0.4) return 2;
+  return accuracy > 0 ? 1 : 0;
+};
+
+/**
+ * One SM-2 step: a passing grade grows the interval (1 day, 6 days, then by
+ * the ease factor), a failing one starts the verse over; the ease factor
+ * drifts with the grade and never drops below 1.3.
+ */
+export const reviewCard = (card: ReviewCard | undefined, quality: ReviewQuality, now: Date): ReviewCard => {
+  const prev = card ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0, due: now.toISOString(), lastReviewed: null };
+  let { repetitions, interval } = prev;
+  if (quality >= 3) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * prev.ease);
+    repetitions++;
+  } else {
+    repetitions = 0;
+    interval = 1;
+  }
+  const miss = 5 - quality;
+  const ease = Math.max(MIN_EASE, prev.ease + (0.1 - miss * (0.08 + miss * 0.02)));
+  return {
+    ease,
+    interval,
+    repetitions,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString(),
+  };
+};
+
+/**
+ * Chooses the next verse: the most overdue one first, then a verse never
+ * played, then the one due soonest. `excludeIndex` keeps the verse that was
+ * just played from coming straight back when there is any alternative.
+ */
+export const pickScheduledVerse = (
+  verses: Verse[],
+  schedule: Record<string, ReviewCard>,
+  now: Date,
+  rng: Rng,
+  excludeIndex: number | null = null
+): number => {
+  const candidates = verses.map((verse, index) => ({ index, card: schedule[verse.reference] }))
+    .filter(c => c.index !== excludeIndex || verses.length === 1);
+
+  const byDue = (a: { card?: ReviewCard }, b: { card?: ReviewCard }) => a.card!.due.localeCompare(b.card!.due);
+  const due = candidates.filter(c => c.card && new Date(c.card.due) <= now).sort(byDue);
+  if (due.length > 0) return due[0].index;
+
+  const unseen = candidates.filter(c => !c.card);
+  if (unseen.length > 0) return unseen[rng.int(unseen.length)].index;
+
+  return candidates.sort(byDue)[0].index;
+};
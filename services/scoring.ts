@@ -0,0 +1,88 @@
+import { ScoreItem, ScoreKind, VerseTally } from '../types';
+import { VerseToken } from './tokenizer';
+
+/** Per token collected straight after the previous one in reading order. */
+export const IN_ORDER_POINTS = 20;
+/** Per token of a phrase, paid when its last token is collected. */
+export const PHRASE_POINTS_PER_TOKEN = 10;
+/** Moves a verse may take per token before the finishing bonus runs out. */
+export const PAR_MOVES_PER_TOKEN = 3;
+/** Per move a verse is finished under par. */
+export const EFFICIENCY_POINTS_PER_MOVE = 20;
+
+export const SCORE_KINDS: ScoreKind[] = ['placement', 'lines', 'powerUp', 'inOrder', 'phrase', 'efficiency'];
+
+export const scoreForLines = (linesCleared: number, combo: number): number => {
+  if (linesCleared === 0) return 10;
+  const multiplier = Math.min(combo, 10);
+  return (linesCleared * linesCleared * 100) * multiplier;
+};
+
+const PHRASE_BREAK = /\p{P}/u;
+
+/**
+ * Collectible token indices grouped into phrases, split at punctuation.
+ * Whitespace between words does not end a phrase.
+ */
+export const splitPhrases = (tokens: VerseToken[]): number[][] => {
+  const phrases: number[][] = [[]];
+  tokens.forEach((token, index) => {
+    if (token.collectible) phrases[phrases.length - 1].push(index);
+    else if (PHRASE_BREAK.test(token.text) && phrases[phrases.length - 1].length > 0) phrases.push([]);
+  });
+  return phrases.filter(p => p.length > 0);
+};
+
+/**
+ * How many of `collected` continue the verse in reading order: starting at
+ * the first token missing before the move, counts tokens until one is still
+ * missing.
+ */
+export const countInOrder = (tokens: VerseToken[], before: Set<number>, collected: number[]): number => {
+  const now = new Set(collected);
+  let count = 0;
+  for (let index = 0; index < tokens.length; index++) {
+    if (!tokens[index].collectible || before.has(index)) continue;
+    if (!now.has(index)) break;
+    count++;
+  }
+  return count;
+};
+
+/** Bonuses the verse itself pays for a move: tokens in reading order and finished phrases. */
+export const scoreVerseProgress = (tokens: VerseToken[], before: Set<number>, collected: number[]): ScoreItem[] => {
+  if (collected.length === 0) return [];
+  const items: ScoreItem[] = [];
+  const inOrder = countInOrder(tokens, before, collected);
+  if (inOrder > 0) items.push({ kind: 'inOrder', points: inOrder * IN_ORDER_POINTS, count: inOrder });
+  const now = new Set(collected);
+  splitPhrases(tokens)
+    .filter(phrase => phrase.some(i => now.has(i)) && phrase.every(i => before.has(i) || now.has(i)))
+    .forEach(phrase => items.push({ kind: 'phrase', points: phrase.length * PHRASE_POINTS_PER_TOKEN, count: phrase.length }));
+  return items;
+};
+
+/** Bonus for finishing a verse of `required` tokens in `moves` moves, if under par. */
+export const scoreVerseFinish = (required: number, moves: number): ScoreItem | null => {
+  const underPar = required * PAR_MOVES_PER_TOKEN - moves;
+  return underPar > 0 ? { kind: 'efficiency', points: underPar * EFFICIENCY_POINTS_PER_MOVE, count: underPar } : null;
+};
+
+export const emptyTally = (): VerseTally => ({
+  moves: 0,
+  points: { placement: 0, lines: 0, powerUp: 0, inOrder: 0, phrase: 0, efficiency: 0 },
+  counts: { placement: 0, lines: 0, powerUp: 0, inOrder: 0, phrase: 0, efficiency: 0 },
+});
+
+export const addToTally = (tally: VerseTally, items: ScoreItem[], moves = 0): VerseTally => {
+  const points = { ...tally.points };
+  const counts = { ...tally.counts };
+  items.forEach(item => {
+    points[item.kind] += item.points;
+    counts[item.kind] += item.count;
+  });
+  return { moves: tally.moves + moves, points, counts };
+};
+
+export const tallyTotal = (tally: VerseTally): number =>
+  SCORE_KINDS.reduce((sum, kind) => sum + tally.points[kind], 0);
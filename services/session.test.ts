@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types';
+import { applyMove, getMissingTokens } from './engine';
+import { evaluateMoves } from './hints';
+import { SESSION_VERSION, SessionError, parseSession, parseSessionJson, restoreSession, toSavedSession } from './session';
+
+/** Written by the first release: the React state as it was, verse by index, no seed. */
+const LEGACY_SAVE = readFileSync(new URL('./fixtures/session-v1.json', import.meta.url), 'utf8');
+
+describe('parseSession', () => {
+  it('migrates a save from the first release', () => {
+    const saved = parseSessionJson(LEGACY_SAVE);
+
+    expect(saved).toMatchObject({
+      version: SESSION_VERSION,
+      packId: 'classic',
+      verseReference: '詩篇 119:11',
+      mode: 'classic',
+      difficulty: 'normal',
+      boardSize: 10,
+      traySize: 3,
+      score: 320,
+      combo: 1,
+      seed: 0,
+    });
+    expect([...saved.collectedIndices].sort()).toEqual([0, 1]);
+    expect(Number.isInteger(saved.rngState)).toBe(true);
+    expect(saved.grid.flat().every(cell => cell.locked === false)).toBe(true);
+    expect(saved).not.toHaveProperty('screen');
+    expect(saved).not.toHaveProperty('completedVerses');
+  });
+
+  it('round-trips a migrated save through restore and save', () => {
+    const restored = restoreSession(parseSessionJson(LEGACY_SAVE));
+    const saved = toSavedSession(restored as GameState);
+    const again = parseSession(JSON.parse(JSON.stringify(saved)));
+
+    expect(again).toEqual(saved);
+    expect(restoreSession(again)).toEqual(restored);
+  });
+
+  it('resumes a migrated game that can still be played', () => {
+    const restored = restoreSession(parseSessionJson(LEGACY_SAVE));
+    const [move] = evaluateMoves(restored);
+
+    expect(restored.isGameOver).toBe(false);
+    expect(applyMove(restored, move.trayIndex, move.rotation, move.pos)).not.toBeNull();
+  });
+
+  it('rejects saves it cannot read', () => {
+    expect(() => parseSessionJson('{')).toThrow(SessionError);
+    expect(() => parseSession({ ...JSON.parse(LEGACY_SAVE), grid: [[]] })).toThrow(SessionError);
+    expect(() => parseSession({ version: SESSION_VERSION + 1 })).toThrow(/newer version/);
+  });
+
+  it('fills in what snapshots from the first release lack', () => {
+    const legacy = JSON.parse(LEGACY_SAVE);
+    const { grid, trayPieces, score, combo, collectedIndices } = legacy;
+    const saved = parseSession({ ...legacy, history: [{ grid, trayPieces, score, combo, collectedIndices, versePage: 0, rngState: 1 }] });
+
+    expect(saved.history[0]).toMatchObject({ pieceBag: [], pendingPowerUps: [], hintsUsed: 0, orderStreak: 0, litIndex: null, verseTally: saved.verseTally });
+  });
+
+  it.each([
+    ['pieceBag', 'nope', 'history[0].pieceBag must be a list of piece ids'],
+    ['pendingPowerUps', ['nope'], 'history[0].pendingPowerUps must be a list of power-ups'],
+    ['verseTally', undefined, 'history[0].verseTally is not a valid tally'],
+    ['hintsUsed', '1', 'history[0].hintsUsed must be an integer'],
+  ])('rejects a snapshot with a bad %s', (key, value, message) => {
+    const restored = restoreSession(parseSessionJson(LEGACY_SAVE));
+    const [move] = evaluateMoves(restored);
+    const played = applyMove(restored, move.trayIndex, move.rotation, move.pos)!.nextState;
+    const saved = JSON.parse(JSON.stringify(toSavedSession(played as GameState)));
+    saved.history[0][key] = value;
+
+    expect(() => parseSession(saved)).toThrow(new SessionError(message));
+  });
+
+  it('scatters the page again when a token still to be collected is missing from the board', () => {
+    const legacy = JSON.parse(LEGACY_SAVE);
+    const cell = legacy.grid.flat().find((c: { charIndex: number | null }) => c.charIndex !== null && !legacy.collectedIndices.includes(c.charIndex));
+    const lost = cell.charIndex;
+    Object.assign(cell, { char: null, charIndex: null });
+    const saved = parseSession(legacy);
+    const restored = restoreSession(saved);
+
+    expect(saved.grid.flat().some(c => c.charIndex === lost)).toBe(false);
+    expect(restored.grid.flat().some(c => c.charIndex === lost)).toBe(true);
+    expect(getMissingTokens(restored)).toEqual([]);
+    expect(restored.grid.flat().filter(c => c.filled).length).toBe(saved.grid.flat().filter(c => c.filled).length);
+  });
+
+  it('reports a pack that is no longer installed instead of playing another one', () => {
+    const saved = { ...parseSessionJson(LEGACY_SAVE), packId: 'removed-pack' };
+    expect(() => restoreSession(saved)).toThrow(new SessionError('The verse pack "removed-pack" is no longer installed'));
+  });
+});
@@ -0,0 +1,335 @@
+import { DIFFICULTY_PRESETS, GAME_MODES, PIECES, POWER_UP_PIECES } from '../constants';
+import { CellData, Difficulty, GameState, GameStats, MoveSnapshot, Piece, PieceId, PowerUp, Replay, SavedSession, VerseTally } from '../types';
+import { EngineState, getVersePages, getVerseTokens, refreshStatus, replaceMissingTokens } from './engine';
+import { createRng } from './random';
+import { ReplayError, parseReplay } from './replay';
+import { SCORE_KINDS, emptyTally } from './scoring';
+import { emptyStats } from './stats';
+import { clearSession, loadGameData, loadSessionData, saveSessionData } from './storage';
+import { getPackVerses, getVersePack, DEFAULT_PACK_ID } from './versePacks';
+
+export const SESSION_VERSION = 4;
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/** A saved game turned back into state, ready to be merged into the screen's state. */
+export type RestoredSession = EngineState & Pick<GameState, 'dailyDate' | 'timeLeftMs' | 'replay' | 'stats'>;
+
+type Fields = Record<string, unknown>;
+
+/** Writes the parts of the state that make up the game; screen and drag state are left out. */
+export const toSavedSession = (state: GameState): SavedSession => ({
+  version: SESSION_VERSION,
+  savedAt: new Date().toISOString(),
+  packId: state.packId,
+  verseReference: getPackVerses(state.packId)[state.currentVerseIndex].reference,
+  language: state.language,
+  mode: state.mode,
+  dailyDate: state.dailyDate,
+  timeLeftMs: state.timeLeftMs,
+  difficulty: state.difficulty,
+  boardSize: state.boardSize,
+  traySize: state.traySize,
+  grid: state.grid,
+  trayPieces: state.trayPieces,
+  score: state.score,
+  combo: state.combo,
+  versePage: state.versePage,
+  collectedIndices: Array.from(state.collectedIndices),
+  isGameOver: state.isGameOver,
+  isRoundClearing: state.isRoundClearing,
+  undoLimit: state.undoLimit,
+  undosUsed: state.undosUsed,
+  hintLimit: state.hintLimit,
+  hintsUsed: state.hintsUsed,
+  pieceBag: state.pieceBag,
+  pendingPowerUps: state.pendingPowerUps,
+  orderStreak: state.orderStreak,
+  litIndex: state.litIndex,
+  verseTally: state.verseTally,
+  stats: state.stats,
+  history: state.history,
+  replay: state.replay,
+  seed: state.seed,
+  rngState: state.rngState,
+});
+
+/**
+ * Upgrades a save from the version it is keyed by to the next one. Version 1
+ * is the unversioned dump of the whole React state: the verse was an index
+ * into its pack and newer fields may be missing.
+ */
+const MIGRATIONS: Record<number, (data: Fields) => Fields> = {
+  1: data => {
+    // Cells from before locked blocks lack the flag
+    const upgradeGrid = (grid: unknown) =>
+      Array.isArray(grid) ? grid.map(row => Array.isArray(row) ? row.map(cell => ({ locked: false, ...cell })) : row) : grid;
+    const packId = typeof data.packId === 'string' ? data.packId : DEFAULT_PACK_ID;
+    const difficulty = typeof data.difficulty === 'string' && data.difficulty in DIFFICULTY_PRESETS ? data.difficulty as Difficulty : 'normal';
+    const grid = Array.isArray(data.grid) ? data.grid : [];
+    const trayPieces = Array.isArray(data.trayPieces) ? data.trayPieces : [];
+    const verse = typeof data.currentVerseIndex === 'number' ? getPackVerses(packId)[data.currentVerseIndex] : undefined;
+    // Games from before seeded runs drew from Math.random; any seed will do for the trays still to come
+    const seed = isInt(data.seed) ? data.seed : 0;
+    const pieceBag = data.pieceBag ?? [];
+    const pendingPowerUps = data.pendingPowerUps ?? [];
+    const hintsUsed = data.hintsUsed ?? 0;
+    const verseTally = data.verseTally ?? emptyTally();
+    // Undo used to fill what older snapshots lack from the state; they get the same values now
+    const upgradeSnapshot = (snapshot: unknown) => isObject(snapshot)
+      ? { pieceBag, pendingPowerUps, hintsUsed, orderStreak: 0, litIndex: null, verseTally, ...snapshot, grid: upgradeGrid(snapshot.grid) }
+      : snapshot;
+    const { screen, activePieceIndex, currentPiecePos, highScore, completedVerses, currentVerseIndex, ...rest } = data;
+    return {
+      ...rest,
+      version: 2,
+      savedAt: new Date(0).toISOString(),
+      packId,
+      // The index is the best there is; it is only right if the pack has not changed since
+      verseReference: verse?.reference ?? null,
+      mode: data.mode ?? 'classic',
+      dailyDate: data.dailyDate ?? null,
+      timeLeftMs: data.timeLeftMs ?? null,
+      difficulty,
+      boardSize: data.boardSize ?? grid.length,
+      traySize: data.traySize ?? trayPieces.length,
+      versePage: data.versePage ?? 0,
+      undoLimit: data.undoLimit === undefined ? loadGameData().undoLimit : data.undoLimit,
+      undosUsed: data.undosUsed ?? 0,
+      hintLimit: data.hintLimit ?? DIFFICULTY_PRESETS[difficulty].hintLimit,
+      hintsUsed,
+      pieceBag,
+      pendingPowerUps,
+      orderStreak: data.orderStreak ?? 0,
+      litIndex: data.litIndex ?? null,
+      verseTally,
+      grid: upgradeGrid(data.grid),
+      history: Array.isArray(data.history) ? data.history.map(upgradeSnapshot) : [],
+      replay: data.replay ?? null,
+      seed,
+      rngState: isInt(data.rngState) ? data.rngState : createRng(seed).getState(),
+    };
+  },
+  // Statistics started with version 3; a game already under way starts counting when resumed
+  2: data => ({ ...data, version: 3, stats: emptyStats() }),
+  // Tallies count tokens as well as points from version 4; the verse under way counts from zero
+  3: data => {
+    const withCounts = (tally: unknown) => isObject(tally) ? { ...tally, counts: emptyTally().counts } : tally;
+    return {
+      ...data,
+      version: 4,
+      verseTally: withCounts(data.verseTally),
+      history: Array.isArray(data.history)
+        ? data.history.map(snapshot => isObject(snapshot) ? { ...snapshot, verseTally: withCounts(snapshot.verseTally) } : snapshot)
+        : data.history,
+    };
+  },
+};
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInt = (value: unknown): value is number => Number.isInteger(value);
+
+const check = (ok: boolean, message: string) => {
+  if (!ok) throw new SessionError(message);
+};
+
+const checkIntList = (value: unknown, path: string) =>
+  check(Array.isArray(value) && value.every(isInt), `${path} must be a list of integers`);
+
+const checkGrid = (value: unknown, size: number, path: string) => {
+  check(Array.isArray(value) && value.length === size, `${path} must have ${size} rows`);
+  (value as unknown[]).forEach((row, y) => {
+    check(Array.isArray(row) && row.length === size, `${path}[${y}] must have ${size} cells`);
+    (row as unknown[]).forEach((cell, x) => {
+      const c = cell as Partial<CellData>;
+      check(
+        isObject(cell) &&
+          typeof c.filled === 'boolean' &&
+          typeof c.collected === 'boolean' &&
+          typeof c.locked === 'boolean' &&
+          (c.color === null || typeof c.color === 'string') &&
+          (c.char === null || typeof c.char === 'string') &&
+          (c.charIndex === null || isInt(c.charIndex)),
+        `${path}[${y}][${x}] is not a valid cell`
+      );
+    });
+  });
+};
+
+const checkPiece = (value: unknown, path: string) => {
+  const p = value as Partial<Piece>;
+  check(isObject(value) && typeof p.type === 'string' && p.type in PIECES && typeof p.color === 'string', `${path} is not a valid piece`);
+  check(p.powerUp === undefined || p.powerUp in POWER_UP_PIECES, `${path} has an unknown power-up`);
+  const shape = p.shape;
+  check(
+    Array.isArray(shape) && shape.length > 0 && Array.isArray(shape[0]) && shape[0].length > 0 &&
+      shape.every(row => Array.isArray(row) && row.length === shape[0].length && row.every(v => v === 0 || v === 1)),
+    `${path} has an invalid shape`
+  );
+};
+
+const checkTray = (value: unknown, size: number, path: string) => {
+  check(Array.isArray(value) && value.length === size, `${path} must have ${size} slots`);
+  (value as unknown[]).forEach((piece, i) => { if (piece !== null) checkPiece(piece, `${path}[${i}]`); });
+};
+
+const checkTally = (value: unknown, path: string) => {
+  const tally = value as Partial<VerseTally>;
+  check(isObject(value) && isInt(tally.moves) && isObject(tally.points) && isObject(tally.counts), `${path} is not a valid tally`);
+  SCORE_KINDS.forEach(kind => {
+    check(isInt(tally.points![kind]), `${path}.points.${kind} must be an integer`);
+    check(isInt(tally.counts![kind]), `${path}.counts.${kind} must be an integer`);
+  });
+};
+
+const checkStats = (value: unknown, path: string) => {
+  const stats = value as Partial<GameStats>;
+  check(isObject(value) && isObject(stats.piecesPlaced), `${path} is not valid statistics`);
+  ['gamesPlayed', 'powerUpsUsed', 'bestCombo', 'versesCompleted', 'verseMoves', 'timePlayedMs']
+    .forEach(key => check(isInt((stats as Fields)[key]), `${path}.${key} must be an integer`));
+  check(Object.entries(stats.piecesPlaced!).every(([id, n]) => id in PIECES && isInt(n)), `${path}.piecesPlaced must count pieces by id`);
+  checkIntList(stats.rowsCleared, `${path}.rowsCleared`);
+  checkIntList(stats.colsCleared, `${path}.colsCleared`);
+};
+
+const checkPieceBag = (value: unknown, path: string) =>
+  check(Array.isArray(value) && value.every(id => id in PIECES), `${path} must be a list of piece ids`);
+
+const checkPowerUps = (value: unknown, path: string) =>
+  check(Array.isArray(value) && value.every(p => p in POWER_UP_PIECES), `${path} must be a list of power-ups`);
+
+const checkSnapshot = (value: unknown, size: number, traySize: number, path: string) => {
+  check(isObject(value), `${path} must be an object`);
+  const s = value as Partial<MoveSnapshot>;
+  checkGrid(s.grid, size, `${path}.grid`);
+  checkTray(s.trayPieces, traySize, `${path}.trayPieces`);
+  checkIntList(s.collectedIndices, `${path}.collectedIndices`);
+  ['score', 'combo', 'versePage', 'rngState', 'hintsUsed', 'orderStreak']
+    .forEach(key => check(isInt((s as Fields)[key]), `${path}.${key} must be an integer`));
+  check(s.litIndex === null || isInt(s.litIndex), `${path}.litIndex must be an integer or null`);
+  checkPieceBag(s.pieceBag, `${path}.pieceBag`);
+  checkPowerUps(s.pendingPowerUps, `${path}.pendingPowerUps`);
+  checkTally(s.verseTally, `${path}.verseTally`);
+};
+
+/**
+ * Brings a stored save up to the current version and checks every field.
+ * Throws a SessionError naming the first problem.
+ */
+export const parseSession = (data: unknown): SavedSession => {
+  check(isObject(data), 'A saved game must be an object');
+  let fields = data as Fields;
+  let version = (fields.version ?? 1) as number;
+  check(isInt(version) && version >= 1, `Unknown save version: ${String(version)}`);
+  check(version <= SESSION_VERSION, `The game was saved by a newer version (${version})`);
+  while (version < SESSION_VERSION) {
+    fields = MIGRATIONS[version](fields);
+    version = fields.version as number;
+  }
+
+  check(typeof fields.packId === 'string', '"packId" must be a string');
+  check(typeof fields.verseReference === 'string', '"verseReference" must be a string');
+  check(fields.language === 'en' || fields.language === 'zh', '"language" must be "en" or "zh"');
+  check(GAME_MODES.includes(fields.mode as SavedSession['mode']), `Unknown mode: ${String(fields.mode)}`);
+  check(typeof fields.difficulty === 'string' && fields.difficulty in DIFFICULTY_PRESETS, `Unknown difficulty: ${String(fields.difficulty)}`);
+  check(fields.dailyDate === null || typeof fields.dailyDate === 'string', '"dailyDate" must be a string or null');
+  check(fields.timeLeftMs === null || (typeof fields.timeLeftMs === 'number' && fields.timeLeftMs >= 0), '"timeLeftMs" must be a number or null');
+  ['boardSize', 'traySize', 'score', 'combo', 'versePage', 'undosUsed', 'hintLimit', 'hintsUsed', 'orderStreak', 'seed', 'rngState']
+    .forEach(key => check(isInt(fields[key]), `"${key}" must be an integer`));
+  ['undoLimit', 'litIndex'].forEach(key => check(fields[key] === null || isInt(fields[key]), `"${key}" must be an integer or null`));
+  ['isGameOver', 'isRoundClearing'].forEach(key => check(typeof fields[key] === 'boolean', `"${key}" must be true or false`));
+  const size = fields.boardSize as number;
+  const traySize = fields.traySize as number;
+  checkGrid(fields.grid, size, 'grid');
+  checkTray(fields.trayPieces, traySize, 'trayPieces');
+  checkIntList(fields.collectedIndices, 'collectedIndices');
+  checkPieceBag(fields.pieceBag, '"pieceBag"');
+  checkPowerUps(fields.pendingPowerUps, '"pendingPowerUps"');
+  checkTally(fields.verseTally, 'verseTally');
+  checkStats(fields.stats, 'stats');
+  check(Array.isArray(fields.history), '"history" must be a list');
+  (fields.history as unknown[]).forEach((snapshot, i) => checkSnapshot(snapshot, size, traySize, `history[${i}]`));
+  let replay: Replay | null = null;
+  if (fields.replay !== null) {
+    try {
+      replay = parseReplay(fields.replay);
+    } catch (e) {
+      throw new SessionError(`replay: ${(e as ReplayError).message}`);
+    }
+  }
+
+  return {
+    ...(fields as unknown as SavedSession),
+    pieceBag: fields.pieceBag as PieceId[],
+    pendingPowerUps: fields.pendingPowerUps as PowerUp[],
+    replay,
+  };
+};
+
+export const parseSessionJson = (json: string): SavedSession => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new SessionError(`The save is not valid JSON: ${(e as Error).message}`);
+  }
+  return parseSession(data);
+};
+
+/**
+ * Finds the saved verse in its pack and checks the board still matches its
+ * text, then re-evaluates game over and deadlock. A page missing tokens, as
+ * saves from the first release can be, is scattered again. Throws a
+ * SessionError when the pack is gone or the verse was removed or changed.
+ */
+export const restoreSession = (saved: SavedSession): RestoredSession => {
+  const pack = getVersePack(saved.packId);
+  if (!pack) throw new SessionError(`The verse pack "${saved.packId}" is no longer installed`);
+  const currentVerseIndex = pack.verses.findIndex(v => v.reference === saved.verseReference);
+  check(currentVerseIndex !== -1, `"${saved.verseReference}" is no longer in the pack`);
+  const ref = { packId: saved.packId, currentVerseIndex, language: saved.language };
+  const tokenCount = getVerseTokens(ref).length;
+  const inVerse = (index: number) => index >= 0 && index < tokenCount;
+  check(saved.versePage < getVersePages(ref, saved.boardSize).length, `"${saved.verseReference}" has changed since the game was saved`);
+  check(
+    saved.collectedIndices.every(inVerse) &&
+      (saved.litIndex === null || inVerse(saved.litIndex)) &&
+      saved.grid.every(row => row.every(cell => cell.charIndex === null || inVerse(cell.charIndex))),
+    `"${saved.verseReference}" has changed since the game was saved`
+  );
+
+  const { version, savedAt, verseReference, ...rest } = saved;
+  return refreshStatus(replaceMissingTokens({
+    ...rest,
+    currentVerseIndex,
+    collectedIndices: new Set(saved.collectedIndices),
+    isVerseBlocked: false,
+  }));
+};
+
+export const saveSession = (state: GameState) => {
+  saveSessionData(toSavedSession(state));
+};
+
+/**
+ * The game saved on this device, null when there is none. A save that can no
+ * longer be read is deleted and reported with a SessionError.
+ */
+export const loadSession = (): RestoredSession | null => {
+  const json = loadSessionData();
+  if (json === null) return null;
+  try {
+    return restoreSession(parseSessionJson(json));
+  } catch (e) {
+    clearSession();
+    throw e instanceof SessionError ? e : new SessionError((e as Error).message);
+  }
+};
+
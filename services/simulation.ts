@@ -0,0 +1,98 @@
+import { RoundOptions, getRequiredTokenCount } from './engine';
+import { Bot, GameReport, playGame } from './bots';
+import { getPackVerses } from './versePacks';
+
+export interface SimulationOptions extends RoundOptions {
+  games: number;
+  /** Seed of the first game; game n uses firstSeed + n so runs are repeatable. */
+  firstSeed: number;
+  maxMoves: number;
+}
+
+export interface SimulationSummary {
+  bot: string;
+  games: number;
+  averageScore: number;
+  averageMoves: number;
+  averageVersesCompleted: number;
+  averageReshuffles: number;
+  /** Games by how many verses were cleared before they ended. */
+  versesCompletedDistribution: Record<number, number>;
+  /** Games that ended in game over, bucketed by move count. */
+  gameOverByMoves: Record<string, number>;
+  moveLimitReached: number;
+  /** Per verse: how often it was cleared, and how often a game ended on it. */
+  verseStats: { index: number; reference: string; completed: number; endedOn: number; averageProgress: number }[];
+  /** Verses that came up but no game ever finished. */
+  neverFinished: string[];
+}
+
+const MOVE_BUCKET = 25;
+
+const bucketLabel = (moves: number): string => {
+  const from = Math.floor(moves / MOVE_BUCKET) * MOVE_BUCKET;
+  return `${from}-${from + MOVE_BUCKET - 1}`;
+};
+
+export const summarize = (bot: string, reports: GameReport[], options: RoundOptions): SimulationSummary => {
+  const verses = getPackVerses(options.packId);
+  const stats = verses.map((verse, index) => ({
+    index,
+    reference: verse.reference,
+    completed: 0,
+    endedOn: 0,
+    progress: 0,
+  }));
+  const versesCompletedDistribution: Record<number, number> = {};
+  const gameOverByMoves: Record<string, number> = {};
+  let moveLimitReached = 0;
+
+  reports.forEach(report => {
+    report.versesCompleted.forEach(i => stats[i].completed++);
+    const last = stats[report.lastVerseIndex];
+    last.endedOn++;
+    last.progress += report.lastVerseProgress / getRequiredTokenCount({ ...options, currentVerseIndex: report.lastVerseIndex });
+    const n = report.versesCompleted.length;
+    versesCompletedDistribution[n] = (versesCompletedDistribution[n] ?? 0) + 1;
+    if (report.endReason === 'gameOver') {
+      const label = bucketLabel(report.moves);
+      gameOverByMoves[label] = (gameOverByMoves[label] ?? 0) + 1;
+    } else {
+      moveLimitReached++;
+    }
+  });
+
+  const average = (pick: (r: GameReport) => number) =>
+    reports.length ? reports.reduce((sum, r) => sum + pick(r), 0) / reports.length : 0;
+
+  return {
+    bot,
+    games: reports.length,
+    averageScore: average(r => r.score),
+    averageMoves: average(r => r.moves),
+    averageVersesCompleted: average(r => r.versesCompleted.length),
+    averageReshuffles: average(r => r.reshuffles),
+    versesCompletedDistribution,
+    gameOverByMoves,
+    moveLimitReached,
+    verseStats: stats
+      .filter(s => s.completed > 0 || s.endedOn > 0)
+      .map(({ progress, ...s }) => ({ ...s, averageProgress: s.endedOn ? progress / s.endedOn : 0 })),
+    neverFinished: stats.filter(s => s.completed === 0 && s.endedOn > 0).map(s => s.reference),
+  };
+};
+
+/** Plays `games` seeded games with one bot. `onGame` is called after each, e.g. for progress output. */
+export const runSimulation = (
+  bot: Bot,
+  options: SimulationOptions,
+  onGame?: (report: GameReport, played: number) => void
+): SimulationSummary => {
+  const reports: GameReport[] = [];
+  for (let n = 0; n < options.games; n++) {
+    const report = playGame(bot, (options.firstSeed + n) >>> 0, options, options.maxMoves);
+    reports.push(report);
+    onGame?.(report, n + 1);
+  }
+  return summarize(bot.name, reports, options);
+};
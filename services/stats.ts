@@ -0,0 +1,91 @@
+import { PIECES } from '../constants';
+import { GameStats, PieceId } from '../types';
+import { GameEvent } from './engine';
+
+export const emptyStats = (): GameStats => ({
+  gamesPlayed: 0,
+  piecesPlaced: {},
+  powerUpsUsed: 0,
+  rowsCleared: [],
+  colsCleared: [],
+  bestCombo: 0,
+  versesCompleted: 0,
+  verseMoves: 0,
+  timePlayedMs: 0,
+});
+
+/** Adds one to each line's count, growing the list with zeros so it never has holes. */
+const countLines = (counts: number[], lines: number[]): number[] => {
+  const next = [...counts];
+  lines.forEach(i => {
+    while (next.length <= i) next.push(0);
+    next[i]++;
+  });
+  return next;
+};
+
+/** Folds the events of one move into the statistics. */
+export const recordEvents = (stats: GameStats, events: GameEvent[]): GameStats =>
+  events.reduce<GameStats>((s, ev) => {
+    switch (ev.type) {
+      case 'placed':
+        if (ev.piece.powerUp) return { ...s, powerUpsUsed: s.powerUpsUsed + 1 };
+        return { ...s, piecesPlaced: { ...s.piecesPlaced, [ev.piece.type]: (s.piecesPlaced[ev.piece.type] ?? 0) + 1 } };
+      case 'linesCleared':
+        return {
+          ...s,
+          rowsCleared: countLines(s.rowsCleared, ev.rows),
+          colsCleared: countLines(s.colsCleared, ev.cols),
+          bestCombo: Math.max(s.bestCombo, ev.combo),
+        };
+      case 'verseCompleted':
+        return { ...s, versesCompleted: s.versesCompleted + 1, verseMoves: s.verseMoves + ev.moves };
+      default:
+        return s;
+    }
+  }, stats);
+
+export const addPlayTime = (stats: GameStats, ms: number): GameStats => ({ ...stats, timePlayedMs: stats.timePlayedMs + ms });
+
+const sumLines = (a: number[], b: number[]): number[] =>
+  Array.from({ length: Math.max(a.length, b.length) }, (_, i) => (a[i] ?? 0) + (b[i] ?? 0));
+
+/** Adds a finished game to the lifetime totals. */
+export const addGameToTotals = (totals: GameStats, game: GameStats): GameStats => {
+  const piecesPlaced = { ...totals.piecesPlaced };
+  Object.entries(game.piecesPlaced).forEach(([id, n]) => {
+    piecesPlaced[id as PieceId] = (piecesPlaced[id as PieceId] ?? 0) + (n ?? 0);
+  });
+  return {
+    gamesPlayed: totals.gamesPlayed + 1,
+    piecesPlaced,
+    powerUpsUsed: totals.powerUpsUsed + game.powerUpsUsed,
+    rowsCleared: sumLines(totals.rowsCleared, game.rowsCleared),
+    colsCleared: sumLines(totals.colsCleared, game.colsCleared),
+    bestCombo: Math.max(totals.bestCombo, game.bestCombo),
+    versesCompleted: totals.versesCompleted + game.versesCompleted,
+    verseMoves: totals.verseMoves + game.verseMoves,
+    timePlayedMs: totals.timePlayedMs + game.timePlayedMs,
+  };
+};
+
+export const averageMovesPerVerse = (stats: GameStats): number | null =>
+  stats.versesCompleted > 0 ? stats.verseMoves / stats.versesCompleted : null;
+
+export const totalPiecesPlaced = (stats: GameStats): number =>
+  Object.values(stats.piecesPlaced).reduce<number>((sum, n) => sum + (n ?? 0), 0);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/** Checks statistics read back from storage or a backup file. */
+export const isGameStats = (value: unknown): value is GameStats => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const stats = value as Record<string, unknown>;
+  const { piecesPlaced } = stats;
+  return (
+    ['gamesPlayed', 'powerUpsUsed', 'bestCombo', 'versesCompleted', 'verseMoves', 'timePlayedMs'].every(key => isCount(stats[key])) &&
+    [stats.rowsCleared, stats.colsCleared].every(lines => Array.isArray(lines) && lines.every(isCount)) &&
+    typeof piecesPlaced === 'object' && piecesPlaced !== null && !Array.isArray(piecesPlaced) &&
+    Object.entries(piecesPlaced).every(([id, n]) => id in PIECES && isCount(n))
+  );
+};
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { emptyStats } from './stats';
+import { createProfile, getActiveProfile, initStorage, isDailyLocked, recordDailyResult, recordDailyStart, loadGameData, loadProfiles, normalizeGameData, normalizeProfileIndex, recordGameStats } from './storage';
+import { createMemoryBackend } from './storageBackends';
+
+const DATA_KEY = 'verse_blocks_data';
+
+beforeEach(() => initStorage(createMemoryBackend()));
+
+describe('normalizeGameData', () => {
+  it('upgrades the layouts older versions saved', () => {
+    const data = normalizeGameData({ completedVerses: ['詩篇 119:11'], highScore: 500 });
+
+    expect(data.completedVerses['詩篇 119:11']).toMatchObject({ count: 1 });
+    expect(data.highScores.classic).toEqual({ easy: 0, normal: 500, hard: 0 });
+    expect(data.highScores.zen).toEqual({ easy: 0, normal: 0, hard: 0 });
+  });
+
+  it('defaults every field that is wrong and reports where', () => {
+    const invalid: string[] = [];
+    const data = normalizeGameData({
+      mode: 'bogus',
+      difficulty: 'insane',
+      language: 'fr',
+      stats: {},
+      highScores: { classic: { normal: 'lots', hard: 900 } },
+      dailyStreak: -1,
+      memorization: { 'A 1:1': { attempts: 1 } },
+      achievements: { combo_10: '2026-01-01T00:00:00.000Z', made_up: 'x' },
+    }, field => invalid.push(field));
+
+    expect(data).toMatchObject({ mode: 'classic', difficulty: 'normal', language: 'zh', dailyStreak: 0, stats: emptyStats(), memorization: {} });
+    expect(data.highScores.classic).toEqual({ easy: 0, normal: 0, hard: 900 });
+    expect(data.achievements).toEqual({ combo_10: '2026-01-01T00:00:00.000Z' });
+    expect(invalid.sort()).toEqual([
+      'achievements.made_up', 'dailyStreak', 'difficulty', 'highScores.classic.normal', 'language', 'memorization.A 1:1', 'mode', 'stats',
+    ]);
+  });
+});
+
+describe('loadGameData', () => {
+  it('still loads, and keeps recording, after bad data was saved', async () => {
+    await initStorage(createMemoryBackend({ [DATA_KEY]: JSON.stringify({ mode: 'bogus', difficulty: 'insane', stats: {}, score: 12 }) }));
+
+    const data = loadGameData();
+    expect(data.highScores[data.mode][data.difficulty]).toBe(0);
+    expect(() => recordGameStats(emptyStats())).not.toThrow();
+    expect(loadGameData().stats.gamesPlayed).toBe(1);
+  });
+});
+
+describe('normalizeProfileIndex', () => {
+  const profile = (id: string) => ({ id, name: id, color: '#0ea5e9', createdAt: '2026-01-01T00:00:00.000Z' });
+
+  it('drops malformed and repeated profiles and reports where', () => {
+    const invalid: string[] = [];
+    const index = normalizeProfileIndex({
+      activeId: 'gone',
+      profiles: [profile('default'), { id: 'p1', color: '#0ea5e9' }, profile('default'), profile('../p2'), profile('p3')],
+    }, field => invalid.push(field));
+
+    expect(index).toEqual({ activeId: 'default', profiles: [profile('default'), profile('p3')] });
+    expect(invalid).toEqual(['profiles.1', 'profiles.2', 'profiles.3', 'activeId']);
+  });
+
+  it('falls back to the default profile when no entry is usable', async () => {
+    await initStorage(createMemoryBackend({ verse_blocks_profiles: JSON.stringify({ activeId: 'p1', profiles: [{ id: 'p1', name: null }] }) }));
+
+    expect(loadProfiles()).toHaveLength(1);
+    expect(getActiveProfile()).toMatchObject({ id: 'default', name: '' });
+  });
+});
+
+describe('createProfile', () => {
+  it('gives profiles made in the same millisecond their own ids', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_800_000_000_000);
+    const first = createProfile('Ann', '#0ea5e9', 'en');
+    const second = createProfile('Ben', '#f59e0b', 'en');
+    vi.restoreAllMocks();
+
+    expect(first.id).not.toBe(second.id);
+    expect(loadProfiles().map(p => p.id)).toEqual(['default', first.id, second.id]);
+    expect(getActiveProfile()).toBe(second);
+  });
+
+  it('reads the stored index once until it changes', () => {
+    const parse = vi.spyOn(JSON, 'parse');
+    getActiveProfile();
+    getActiveProfile();
+    loadProfiles();
+    const reads = parse.mock.calls.length;
+    vi.restoreAllMocks();
+
+    expect(reads).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('daily challenge', () => {
+  it('locks the day as soon as its run starts', () => {
+    expect(isDailyLocked('2026-10-18')).toBe(false);
+    recordDailyStart('2026-10-18');
+
+    expect(isDailyLocked('2026-10-18')).toBe(true);
+    expect(isDailyLocked('2026-10-19')).toBe(false);
+  });
+
+  it('still records the started run once it finishes', () => {
+    recordDailyStart('2026-10-18');
+    const data = recordDailyResult('2026-10-18', 800);
+
+    expect(data.dailyScores).toEqual({ '2026-10-18': 800 });
+    expect(data.dailyStreak).toBe(1);
+    expect(isDailyLocked('2026-10-18')).toBe(true);
+  });
+});
@@ -1,56 +1,485 @@
 
-import { GameState } from '../types';
+import { ACHIEVEMENTS, DIFFICULTIES, PLAY_MODES, PROFILE_COLORS } from '../constants';
+import { AchievementId, AchievementUnlocks, Difficulty, GameStats, Language, MemorizationRecord, PlayMode, Profile, ReviewCard, SavedSession, VerseCollection, VerseCompletion } from '../types';
+import { shiftDateKey } from './daily';
+import { MEMORIZATION_STYLES, MemorizationResult, MemorizationStyle } from './memorization';
+import { ReviewQuality, reviewCard } from './scheduler';
+import { addGameToTotals, emptyStats, isGameStats } from './stats';
+import { KEY_PREFIX, LEGACY_LANG_KEY, StorageBackend, createMemoryBackend } from './storageBackends';
 
-const STORAGE_KEY = 'verse_blocks_data';
-const SESSION_KEY = 'verse_blocks_session';
+const STORAGE_KEY = `${KEY_PREFIX}data`;
+const SESSION_KEY = `${KEY_PREFIX}session`;
+const PACKS_KEY = `${KEY_PREFIX}packs`;
+const REPLAYS_KEY = `${KEY_PREFIX}replays`;
+const PROFILES_KEY = `${KEY_PREFIX}profiles`;
 
-interface PersistentData {
-  completedVerses: string[];
-  highScore: number;
+let backend: StorageBackend = createMemoryBackend();
+let entries: Record<string, string> = {};
+/** The parsed profile index; read on every profile-keyed access, so kept like `entries`. */
+let profileIndex: ProfileIndex | null = null;
+
+/**
+ * Reads everything from `next` and sends every later write to it. Called once
+ * before the game starts; until then the store is empty and kept in memory.
+ */
+export const initStorage = async (next: StorageBackend) => {
+  entries = await next.load();
+  profileIndex = null;
+  backend = next;
+};
+
+const readKey = (key: string): string | null => entries[key] ?? null;
+
+const writeKey = (key: string, value: string) => {
+  entries[key] = value;
+  backend.set(key, value).catch(e => console.error(`Saving ${key} to ${backend.name} failed`, e));
+};
+
+const removeKey = (key: string) => {
+  delete entries[key];
+  backend.remove(key).catch(e => console.error(`Removing ${key} from ${backend.name} failed`, e));
+};
+
+/** The profile progress from before profiles belongs to; its keys carry no suffix. */
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface ProfileIndex {
+  activeId: string;
+  profiles: Profile[];
 }
 
+const DEFAULT_PROFILES: ProfileIndex = {
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: '', color: PROFILE_COLORS[0], createdAt: new Date(0).toISOString() }],
+};
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/** Profile ids end up in storage keys. */
+const PROFILE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+const isProfile = (value: unknown): value is Profile =>
+  isObject(value) &&
+  isString(value.id) && PROFILE_ID_PATTERN.test(value.id) &&
+  isString(value.name) &&
+  isString(value.color) &&
+  isString(value.createdAt);
+
+/**
+ * Reads a stored profile index the way normalizeGameData reads progress: an
+ * entry that is not a valid profile, or repeats an id, is reported to
+ * `onInvalid` by its path and dropped, and an active id that names no
+ * profile falls back to the first one. An index left without profiles is
+ * replaced by the single default profile.
+ */
+export const normalizeProfileIndex = (raw: unknown, onInvalid: (field: string) => void = () => {}): ProfileIndex => {
+  if (raw === null || raw === undefined) return DEFAULT_PROFILES;
+  if (!isObject(raw) || !Array.isArray(raw.profiles)) {
+    onInvalid('profiles');
+    return DEFAULT_PROFILES;
+  }
+  const ids = new Set<string>();
+  const profiles = raw.profiles.filter((profile: unknown, i: number): profile is Profile => {
+    if (isProfile(profile) && !ids.has(profile.id)) {
+      ids.add(profile.id);
+      return true;
+    }
+    onInvalid(`profiles.${i}`);
+    return false;
+  });
+  if (profiles.length === 0) return DEFAULT_PROFILES;
+  if (ids.has(raw.activeId as string)) return { activeId: raw.activeId as string, profiles };
+  onInvalid('activeId');
+  return { activeId: profiles[0].id, profiles };
+};
+
+const loadProfileIndex = (): ProfileIndex => {
+  if (!profileIndex) {
+    try {
+      profileIndex = normalizeProfileIndex(JSON.parse(readKey(PROFILES_KEY) ?? 'null'));
+    } catch (e) {
+      profileIndex = DEFAULT_PROFILES;
+    }
+  }
+  return profileIndex;
+};
+
+const saveProfileIndex = (index: ProfileIndex) => {
+  profileIndex = index;
+  writeKey(PROFILES_KEY, JSON.stringify(index));
+};
+
+/** Progress, settings and the saved game are kept per profile; packs and replays are shared. */
+const profileKey = (key: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}_${profileId}`;
+
+export const loadProfiles = (): Profile[] => loadProfileIndex().profiles;
+
+export const getActiveProfile = (): Profile => {
+  const { activeId, profiles } = loadProfileIndex();
+  return profiles.find(p => p.id === activeId) ?? profiles[0];
+};
+
+const activeKey = (key: string) => profileKey(key, getActiveProfile().id);
+
+export const switchProfile = (id: string) => {
+  const index = loadProfileIndex();
+  if (index.profiles.some(p => p.id === id)) saveProfileIndex({ ...index, activeId: id });
+};
+
+/** Adds a profile, starting it in `language`, and makes it the active one. */
+export const createProfile = (name: string, color: string, language: Language): Profile => {
+  const index = loadProfileIndex();
+  // The time alone repeats within a millisecond; the random part keeps ids apart across devices too
+  let id: string;
+  do {
+    id = `p${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  } while (index.profiles.some(p => p.id === id));
+  const profile: Profile = { id, name, color, createdAt: new Date().toISOString() };
+  writeKey(profileKey(STORAGE_KEY, profile.id), JSON.stringify({ language }));
+  saveProfileIndex({ activeId: profile.id, profiles: [...index.profiles, profile] });
+  return profile;
+};
+
+export const updateProfile = (id: string, changes: Partial<Pick<Profile, 'name' | 'color'>>) => {
+  const index = loadProfileIndex();
+  saveProfileIndex({ ...index, profiles: index.profiles.map(p => (p.id === id ? { ...p, ...changes } : p)) });
+};
+
+/** Deletes a profile and everything saved under it. The last profile cannot be deleted. */
+export const deleteProfile = (id: string) => {
+  const index = loadProfileIndex();
+  const profiles = index.profiles.filter(p => p.id !== id);
+  if (profiles.length === 0 || profiles.length === index.profiles.length) return;
+  removeKey(profileKey(STORAGE_KEY, id));
+  removeKey(profileKey(SESSION_KEY, id));
+  saveProfileIndex({ activeId: index.activeId === id ? profiles[0].id : index.activeId, profiles });
+};
+
+export interface PersistentData {
+  completedVerses: VerseCollection;
+  /** Best score for each mode and difficulty. */
+  highScores: Record<PlayMode, Record<Difficulty, number>>;
+  /** Final score of the daily challenge, keyed by date. */
+  dailyScores: Record<string, number>;
+  /** Date of the latest daily run started. A day is locked once its run starts, finished or not. */
+  dailyStartedOn: string | null;
+  dailyStreak: number;
+  bestDailyStreak: number;
+  lastDailyDate: string | null;
+  /** Verse pack new games draw from. */
+  selectedPackId: string;
+  memorizationStyle: MemorizationStyle;
+  /** Recall results keyed by verse reference. */
+  memorization: Record<string, MemorizationRecord>;
+  /** Spaced-repetition cards keyed by verse reference. */
+  reviewSchedule: Record<string, ReviewCard>;
+  /** Undos allowed per verse in new games; null for unlimited, 0 to disable. */
+  undoLimit: number | null;
+  /** Difficulty and mode of new games. */
+  difficulty: Difficulty;
+  mode: PlayMode;
+  language: Language;
+  /** Totals over every finished game, and the last game on its own. */
+  stats: GameStats;
+  lastGameStats: GameStats | null;
+  achievements: AchievementUnlocks;
+}
+
+const NO_SCORES: Record<Difficulty, number> = { easy: 0, normal: 0, hard: 0 };
+
 const DEFAULT_DATA: PersistentData = {
-  completedVerses: [],
-  highScore: 0,
+  completedVerses: {},
+  highScores: { classic: NO_SCORES, timed: NO_SCORES, zen: NO_SCORES },
+  dailyScores: {},
+  dailyStartedOn: null,
+  dailyStreak: 0,
+  bestDailyStreak: 0,
+  lastDailyDate: null,
+  selectedPackId: 'classic',
+  memorizationStyle: 'off',
+  memorization: {},
+  reviewSchedule: {},
+  undoLimit: 3,
+  difficulty: 'normal',
+  mode: 'classic',
+  language: 'zh',
+  stats: emptyStats(),
+  lastGameStats: null,
+  achievements: {},
 };
 
 export const saveGameData = (data: Partial<PersistentData>) => {
   const existing = loadGameData();
   const updated = { ...existing, ...data };
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  writeKey(activeKey(STORAGE_KEY), JSON.stringify(updated));
+};
+
+const isCompletion = (value: unknown): value is VerseCompletion =>
+  isObject(value) && isString(value.firstCompletedAt) && isCount(value.count);
+
+const isAccuracy = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isMemorizationRecord = (value: unknown): value is MemorizationRecord =>
+  isObject(value) &&
+  isCount(value.attempts) &&
+  isAccuracy(value.lastAccuracy) &&
+  isAccuracy(value.bestAccuracy) &&
+  (value.bestTimeMs === null || isCount(value.bestTimeMs)) &&
+  isString(value.lastPracticedAt);
+
+const isReviewCard = (value: unknown): value is ReviewCard =>
+  isObject(value) &&
+  typeof value.ease === 'number' && Number.isFinite(value.ease) &&
+  isCount(value.interval) &&
+  isCount(value.repetitions) &&
+  isString(value.due) &&
+  (value.lastReviewed === null || isString(value.lastReviewed));
+
+const oneOf = <T>(options: readonly T[]) => (value: unknown): value is T => options.includes(value as T);
+
+/**
+ * Reads stored or imported progress: upgrades the layouts older versions
+ * saved, then checks every field. Missing fields get their defaults. A field
+ * or record entry that is present but wrong is reported to `onInvalid` by its
+ * path and then defaulted or dropped as well, so damaged data can never keep
+ * the game from starting.
+ */
+export const normalizeGameData = (raw: unknown, onInvalid: (field: string) => void = () => {}): PersistentData => {
+  const data: Fields = isObject(raw) ? { ...raw } : {};
+
+  // Older saves kept a bare list of references that nothing ever wrote to
+  if (Array.isArray(data.completedVerses)) {
+    data.completedVerses = Object.fromEntries(
+      data.completedVerses.filter(isString).map(ref => [ref, { firstCompletedAt: new Date(0).toISOString(), count: 1 }])
+    );
+  }
+  // Before modes the records were per difficulty only, all of them classic
+  if (isObject(data.highScores) && typeof data.highScores.normal === 'number') {
+    data.highScores = { classic: data.highScores };
+  }
+  // Before difficulties there was a single record, set on what is now normal
+  if (typeof data.highScore === 'number') {
+    const highScores = isObject(data.highScores) ? data.highScores : {};
+    const classic = isObject(highScores.classic) ? highScores.classic : {};
+    const normal = isCount(classic.normal) ? classic.normal : 0;
+    data.highScores = { ...highScores, classic: { ...classic, normal: Math.max(normal, data.highScore) } };
+  }
+  // The language used to be a key of its own
+  if (!('language' in data)) data.language = readKey(LEGACY_LANG_KEY) === 'en' ? 'en' : 'zh';
+
+  const field = <K extends keyof PersistentData>(key: K, valid: (value: unknown) => boolean): PersistentData[K] => {
+    const value = data[key];
+    if (value === undefined) return DEFAULT_DATA[key];
+    if (valid(value)) return value as PersistentData[K];
+    onInvalid(key);
+    return DEFAULT_DATA[key];
+  };
+  /** The entries of a keyed record that pass `valid`. */
+  const record = <T>(key: keyof PersistentData, valid: (value: unknown) => value is T, validKey: (key: string) => boolean = () => true) => {
+    const value = data[key];
+    const kept: Record<string, T> = {};
+    if (value === undefined) return kept;
+    if (!isObject(value)) {
+      onInvalid(key);
+      return kept;
+    }
+    Object.entries(value).forEach(([k, entry]) => {
+      if (validKey(k) && valid(entry)) kept[k] = entry;
+      else onInvalid(`${key}.${k}`);
+    });
+    return kept;
+  };
+
+  const storedScores = data.highScores === undefined ? {} : data.highScores;
+  if (!isObject(storedScores)) onInvalid('highScores');
+  const highScores = Object.fromEntries(PLAY_MODES.map(mode => {
+    const scores = isObject(storedScores) && isObject(storedScores[mode]) ? storedScores[mode] as Fields : {};
+    return [mode, Object.fromEntries(DIFFICULTIES.map(difficulty => {
+      const score = scores[difficulty];
+      if (score !== undefined && !isCount(score)) onInvalid(`highScores.${mode}.${difficulty}`);
+      return [difficulty, isCount(score) ? score : 0];
+    }))];
+  })) as PersistentData['highScores'];
+
+  return {
+    completedVerses: record('completedVerses', isCompletion),
+    highScores,
+    dailyScores: record('dailyScores', isCount),
+    dailyStartedOn: field('dailyStartedOn', value => value === null || isString(value)),
+    dailyStreak: field('dailyStreak', isCount),
+    bestDailyStreak: field('bestDailyStreak', isCount),
+    lastDailyDate: field('lastDailyDate', value => value === null || isString(value)),
+    selectedPackId: field('selectedPackId', isString),
+    memorizationStyle: field('memorizationStyle', oneOf(MEMORIZATION_STYLES)),
+    memorization: record('memorization', isMemorizationRecord),
+    reviewSchedule: record('reviewSchedule', isReviewCard),
+    undoLimit: field('undoLimit', value => value === null || isCount(value)),
+    difficulty: field('difficulty', oneOf(DIFFICULTIES)),
+    mode: field('mode', oneOf(PLAY_MODES)),
+    language: field('language', oneOf<Language>(['en', 'zh'])),
+    stats: field('stats', isGameStats),
+    lastGameStats: field('lastGameStats', value => value === null || isGameStats(value)),
+    achievements: record('achievements', isString, id => ACHIEVEMENTS.some(a => a.id === id)),
+  };
 };
 
-export const loadGameData = (): PersistentData => {
-  const stored = localStorage.getItem(STORAGE_KEY);
-  if (!stored) return DEFAULT_DATA;
+/** Progress of any profile, e.g. for comparing them. */
+export const loadProfileData = (profileId: string): PersistentData => {
   try {
-    return { ...DEFAULT_DATA, ...JSON.parse(stored) };
+    return normalizeGameData(JSON.parse(readKey(profileKey(STORAGE_KEY, profileId)) ?? '{}'));
   } catch (e) {
     return DEFAULT_DATA;
   }
 };
 
-export const saveSession = (state: any) => {
-  if (!state) return;
-  const serializable = {
-    ...state,
-    collectedIndices: Array.from(state.collectedIndices)
+/** Progress of the active profile. */
+export const loadGameData = (): PersistentData => loadProfileData(getActiveProfile().id);
+
+/** Saves `score` as the record of the mode at that difficulty if it beats it; returns the record. */
+export const recordHighScore = (mode: PlayMode, difficulty: Difficulty, score: number): number => {
+  const { highScores } = loadGameData();
+  if (score <= highScores[mode][difficulty]) return highScores[mode][difficulty];
+  saveGameData({ highScores: { ...highScores, [mode]: { ...highScores[mode], [difficulty]: score } } });
+  return score;
+};
+
+/** Adds a finished game to the lifetime statistics. */
+export const recordGameStats = (game: GameStats) => {
+  const { stats } = loadGameData();
+  saveGameData({ stats: addGameToTotals(stats, game), lastGameStats: game });
+};
+
+/** Stamps newly unlocked achievements with the current time; returns every unlock. */
+export const recordAchievements = (ids: AchievementId[]): AchievementUnlocks => {
+  const { achievements } = loadGameData();
+  const now = new Date().toISOString();
+  const updated = { ...achievements };
+  ids.forEach(id => { updated[id] = updated[id] ?? now; });
+  saveGameData({ achievements: updated });
+  return updated;
+};
+
+/**
+ * Marks a verse as completed once more, stamping the date on first completion.
+ */
+export const recordVerseCompletion = (reference: string): VerseCollection => {
+  const { completedVerses } = loadGameData();
+  const existing = completedVerses[reference];
+  const updated: VerseCollection = {
+    ...completedVerses,
+    [reference]: existing
+      ? { ...existing, count: existing.count + 1 }
+      : { firstCompletedAt: new Date().toISOString(), count: 1 },
   };
-  localStorage.setItem(SESSION_KEY, JSON.stringify(serializable));
+  saveGameData({ completedVerses: updated });
+  return updated;
 };
 
-export const loadSession = (): any | null => {
-  const stored = localStorage.getItem(SESSION_KEY);
-  if (!stored) return null;
+export const isDailyLocked = (dateKey: string): boolean => {
+  const { dailyScores, dailyStartedOn } = loadGameData();
+  return dailyScores[dateKey] !== undefined || dailyStartedOn === dateKey;
+};
+
+/** Locks the day as its run starts, so leaving it and starting over cannot buy a better try. */
+export const recordDailyStart = (dateKey: string) => {
+  saveGameData({ dailyStartedOn: dateKey });
+};
+
+/**
+ * Records a finished daily run. The first finished run of a day counts;
+ * the streak continues only when the previous finished day was yesterday.
+ */
+export const recordDailyResult = (dateKey: string, score: number): PersistentData => {
+  const data = loadGameData();
+  if (data.dailyScores[dateKey] !== undefined) return data;
+  const dailyStreak = data.lastDailyDate === shiftDateKey(dateKey, -1) ? data.dailyStreak + 1 : 1;
+  saveGameData({
+    dailyScores: { ...data.dailyScores, [dateKey]: score },
+    dailyStreak,
+    bestDailyStreak: Math.max(data.bestDailyStreak, dailyStreak),
+    lastDailyDate: dateKey,
+  });
+  return loadGameData();
+};
+
+/** Current streak, or 0 once a day has been missed. */
+export const getDailyStreak = (todayKey: string): number => {
+  const { lastDailyDate, dailyStreak } = loadGameData();
+  if (lastDailyDate === todayKey || lastDailyDate === shiftDateKey(todayKey, -1)) return dailyStreak;
+  return 0;
+};
+
+export const recordMemorizationResult = (reference: string, result: MemorizationResult): MemorizationRecord => {
+  const { memorization } = loadGameData();
+  const existing = memorization[reference];
+  const perfect = result.accuracy === 1;
+  const record: MemorizationRecord = {
+    attempts: (existing?.attempts ?? 0) + 1,
+    lastAccuracy: result.accuracy,
+    bestAccuracy: Math.max(existing?.bestAccuracy ?? 0, result.accuracy),
+    bestTimeMs: perfect && (existing?.bestTimeMs == null || result.timeMs < existing.bestTimeMs)
+      ? result.timeMs
+      : existing?.bestTimeMs ?? null,
+    lastPracticedAt: new Date().toISOString(),
+  };
+  saveGameData({ memorization: { ...memorization, [reference]: record } });
+  return record;
+};
+
+export const recordReview = (reference: string, quality: ReviewQuality): ReviewCard => {
+  const { reviewSchedule } = loadGameData();
+  const card = reviewCard(reviewSchedule[reference], quality, new Date());
+  saveGameData({ reviewSchedule: { ...reviewSchedule, [reference]: card } });
+  return card;
+};
+
+/** Raw pack files as imported; they are validated again when read back. */
+export const loadImportedPackFiles = (): unknown[] => {
+  const stored = readKey(PACKS_KEY);
+  if (!stored) return [];
+  try {
+    const files = JSON.parse(stored);
+    return Array.isArray(files) ? files : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveImportedPackFiles = (files: unknown[]) => {
+  writeKey(PACKS_KEY, JSON.stringify(files));
+};
+
+/** Raw replay logs, newest first; they are validated again when read back. */
+export const loadReplayFiles = (): unknown[] => {
+  const stored = readKey(REPLAYS_KEY);
+  if (!stored) return [];
   try {
-    const data = JSON.parse(stored);
-    data.collectedIndices = new Set(data.collectedIndices);
-    return data;
+    const files = JSON.parse(stored);
+    return Array.isArray(files) ? files : [];
   } catch (e) {
-    return null;
+    return [];
   }
 };
 
+export const saveReplayFiles = (files: unknown[]) => {
+  writeKey(REPLAYS_KEY, JSON.stringify(files));
+};
+
+export const saveSessionData = (session: SavedSession) => {
+  writeKey(activeKey(SESSION_KEY), JSON.stringify(session));
+};
+
+/** The saved game as stored, null when there is none; it is migrated and validated when read back. */
+export const loadSessionData = (): string | null => readKey(activeKey(SESSION_KEY));
+
 export const clearSession = () => {
-  localStorage.removeItem(SESSION_KEY);
+  removeKey(activeKey(SESSION_KEY));
 };
@@ -0,0 +1,98 @@
+/**
+ * Where the game's data lives. The storage module reads everything into memory
+ * once at startup and writes changes through, so the game itself stays
+ * synchronous whatever the backend.
+ */
+export interface StorageBackend {
+  name: string;
+  /** Every stored key and its value. */
+  load: () => Promise<Record<string, string>>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+/** Keys this game owns in shared stores such as localStorage. */
+export const KEY_PREFIX = 'verse_blocks_';
+/** Language key written by versions that predate the storage module. */
+export const LEGACY_LANG_KEY = 'lang';
+
+const isOwnKey = (key: string) => key.startsWith(KEY_PREFIX) || key === LEGACY_LANG_KEY;
+
+export const createLocalStorageBackend = (storage: Storage = localStorage): StorageBackend => ({
+  name: 'localStorage',
+  load: async () => {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null && isOwnKey(key)) entries[key] = storage.getItem(key) ?? '';
+    }
+    return entries;
+  },
+  set: async (key, value) => storage.setItem(key, value),
+  remove: async (key) => storage.removeItem(key),
+});
+
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const createIndexedDbBackend = (dbName = 'bible-blocks'): StorageBackend => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db) {
+      const req = indexedDB.open(dbName, DB_VERSION);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+      db = request(req);
+    }
+    return db;
+  };
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(STORE, mode).objectStore(STORE);
+  return {
+    name: 'IndexedDB',
+    load: async () => {
+      const s = await store('readonly');
+      const [keys, values] = await Promise.all([request(s.getAllKeys()), request(s.getAll())]);
+      return Object.fromEntries(keys.map((key, i) => [String(key), values[i] as string]));
+    },
+    set: async (key, value) => { await request((await store('readwrite')).put(value, key)); },
+    remove: async (key) => { await request((await store('readwrite')).delete(key)); },
+  };
+};
+
+/** Keeps everything in a plain object; nothing survives a reload. For tests and headless runs. */
+export const createMemoryBackend = (initial: Record<string, string> = {}): StorageBackend => {
+  const entries = { ...initial };
+  return {
+    name: 'memory',
+    load: async () => ({ ...entries }),
+    set: async (key, value) => { entries[key] = value; },
+    remove: async (key) => { delete entries[key]; },
+  };
+};
+
+/**
+ * IndexedDB where the browser has it, localStorage otherwise. The first time
+ * IndexedDB is used, whatever an earlier version left in localStorage is
+ * carried over so no progress is lost.
+ */
+export const createDefaultBackend = async (): Promise<StorageBackend> => {
+  const local = createLocalStorageBackend();
+  if (typeof indexedDB === 'undefined') return local;
+  const idb = createIndexedDbBackend();
+  try {
+    const existing = await idb.load();
+    if (Object.keys(existing).length === 0) {
+      const legacy = await local.load();
+      await Promise.all(Object.entries(legacy).map(([key, value]) => idb.set(key, value)));
+    }
+    return idb;
+  } catch (e) {
+    // Private browsing modes may refuse IndexedDB
+    return local;
+  }
+};
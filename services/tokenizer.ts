@@ -0,0 +1,45 @@
+import { Language } from '../types';
+
+/**
+ * How a language's text is cut into board cells: one CJK character, one
+ * whole word, or one user-perceived character (grapheme cluster).
+ */
+export type TokenUnit = 'char' | 'word' | 'grapheme';
+
+export interface VerseToken {
+  text: string;
+  /** False for punctuation and whitespace, which are never placed and count as collected. */
+  collectible: boolean;
+}
+
+export const TOKEN_UNITS: Record<Language, TokenUnit> = {
+  zh: 'char',
+  en: 'word',
+};
+
+const NON_COLLECTIBLE = /^[\p{P}\p{S}\p{Z}\s]+$/u;
+const WORD_FALLBACK = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*|\s+|[^\p{L}\p{M}\p{N}\s]/gu;
+
+const segment = (text: string, granularity: 'grapheme' | 'word'): string[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity });
+    return Array.from(segmenter.segment(text), s => s.segment);
+  }
+  // Older engines: code points keep astral characters whole, the regex keeps words whole
+  return granularity === 'word' ? text.match(WORD_FALLBACK) ?? [] : Array.from(text);
+};
+
+export const tokenize = (text: string, unit: TokenUnit): VerseToken[] => {
+  const parts = unit === 'word' ? segment(text, 'word') : segment(text, 'grapheme');
+  return parts.map(part => ({ text: part, collectible: !NON_COLLECTIBLE.test(part) }));
+};
+
+export const tokenizeVerse = (text: string, lang: Language): VerseToken[] =>
+  tokenize(text, TOKEN_UNITS[lang]);
+
+export const countCollectible = (tokens: VerseToken[]): number =>
+  tokens.reduce((n, token) => n + (token.collectible ? 1 : 0), 0);
+
+/** Placeholder shown in the verse strip for a token that has not been collected yet. */
+export const maskToken = (token: VerseToken, unit: TokenUnit): string =>
+  unit === 'word' ? '_'.repeat(Array.from(token.text).length) : '□';
@@ -0,0 +1,143 @@
+import { SAMPLE_VERSES } from '../constants';
+import { Language, Verse, VersePack } from '../types';
+import { loadImportedPackFiles, saveImportedPackFiles } from './storage';
+import psalmsPack from '../packs/psalms.json';
+import sermonOnTheMountPack from '../packs/sermon-on-the-mount.json';
+
+export const DEFAULT_PACK_ID = 'classic';
+
+const LANGUAGES: Language[] = ['en', 'zh'];
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export class VersePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VersePackError';
+  }
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const parseTags = (value: unknown, path: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every(isNonEmptyString)) {
+    throw new VersePackError(`${path} must be a list of non-empty strings`);
+  }
+  return value;
+};
+
+/**
+ * Validates a pack file and turns it into a VersePack. The file format is
+ * `{ id, name, language, tags?, verses: [{ reference, text, tags? }] }`;
+ * every problem is reported with the path of the offending field.
+ */
+export const parseVersePack = (data: unknown, builtIn = false): VersePack => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new VersePackError('A verse pack must be a JSON object');
+  }
+  const raw = data as Record<string, unknown>;
+
+  if (!isNonEmptyString(raw.id) || !PACK_ID_PATTERN.test(raw.id)) {
+    throw new VersePackError('"id" must be lowercase letters, digits and dashes, e.g. "psalms"');
+  }
+  if (!isNonEmptyString(raw.name)) {
+    throw new VersePackError('"name" must be a non-empty string');
+  }
+  if (!LANGUAGES.includes(raw.language as Language)) {
+    throw new VersePackError(`"language" must be one of: ${LANGUAGES.join(', ')}`);
+  }
+  const language = raw.language as Language;
+  const tags = parseTags(raw.tags, '"tags"');
+
+  if (!Array.isArray(raw.verses) || raw.verses.length === 0) {
+    throw new VersePackError('"verses" must be a non-empty list');
+  }
+  const seen = new Set<string>();
+  const verses: Verse[] = raw.verses.map((entry: unknown, i: number) => {
+    const path = `verses[${i}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      throw new VersePackError(`${path} must be an object with "reference" and "text"`);
+    }
+    const { reference, text, tags: verseTags } = entry as Record<string, unknown>;
+    if (!isNonEmptyString(reference)) throw new VersePackError(`${path}.reference must be a non-empty string`);
+    if (!isNonEmptyString(text)) throw new VersePackError(`${path}.text must be a non-empty string`);
+    if (seen.has(reference)) throw new VersePackError(`${path}.reference "${reference}" appears more than once`);
+    seen.add(reference);
+    return {
+      reference,
+      translations: { [language]: { text, reference, version: raw.id as string } },
+      tags: parseTags(verseTags, `${path}.tags`),
+    };
+  });
+
+  return { id: raw.id, name: raw.name, language, tags, verses, builtIn };
+};
+
+export const parseVersePackJson = (json: string): VersePack => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new VersePackError(`Not a valid JSON file: ${(e as Error).message}`);
+  }
+  return parseVersePack(data);
+};
+
+const CLASSIC_PACK: VersePack = {
+  id: DEFAULT_PACK_ID,
+  name: 'Classic',
+  language: 'zh',
+  tags: [],
+  verses: SAMPLE_VERSES,
+  builtIn: true,
+};
+
+export const BUILT_IN_PACKS: VersePack[] = [
+  CLASSIC_PACK,
+  parseVersePack(psalmsPack, true),
+  parseVersePack(sermonOnTheMountPack, true),
+];
+
+let importedPacks: VersePack[] | null = null;
+
+/** User-imported packs; files that no longer validate are skipped. */
+export const getImportedPacks = (): VersePack[] => {
+  if (!importedPacks) {
+    importedPacks = loadImportedPackFiles().flatMap(file => {
+      try {
+        return [parseVersePack(file)];
+      } catch (e) {
+        return [];
+      }
+    });
+  }
+  return importedPacks;
+};
+
+export const getAllPacks = (): VersePack[] => [...BUILT_IN_PACKS, ...getImportedPacks()];
+
+/** The installed pack with this id; undefined when there is none, e.g. an imported pack that was removed. */
+export const getVersePack = (id: string): VersePack | undefined =>
+  BUILT_IN_PACKS.find(p => p.id === id) ?? getImportedPacks().find(p => p.id === id);
+
+/** Verses of an installed pack; an unknown pack has none. */
+export const getPackVerses = (id: string): Verse[] => getVersePack(id)?.verses ?? [];
+
+/** `id` when that pack is installed, otherwise the default pack's id. */
+export const installedPackId = (id: string): string => (getVersePack(id) ? id : DEFAULT_PACK_ID);
+
+/**
+ * Validates and stores a user-supplied pack file. Re-importing a pack with
+ * the same id replaces it; built-in ids are reserved.
+ */
+export const importVersePack = (json: string): VersePack => {
+  const pack = parseVersePackJson(json);
+  if (BUILT_IN_PACKS.some(p => p.id === pack.id)) {
+    throw new VersePackError(`"id" "${pack.id}" is reserved by a built-in pack`);
+  }
+  const files = loadImportedPackFiles().filter(file => (file as { id?: unknown })?.id !== pack.id);
+  saveImportedPackFiles([...files, JSON.parse(json)]);
+  importedPacks = null;
+  return pack;
+};
@@ -0,0 +1,46 @@
+import { Language, Verse, VerseTranslation } from '../types';
+
+/**
+ * The language the verse is actually shown in: the requested one when the
+ * verse carries it, otherwise its first translation, so a single-language
+ * pack never breaks a round.
+ */
+export const getVerseLanguage = (verse: Verse, lang: Language): Language => {
+  if (verse.translations[lang]) return lang;
+  const available = Object.keys(verse.translations) as Language[];
+  if (available.length === 0) throw new Error(`Verse ${verse.reference} has no translations`);
+  return available[0];
+};
+
+export const getVerseText = (verse: Verse, lang: Language): VerseTranslation =>
+  verse.translations[getVerseLanguage(verse, lang)]!;
+
+/** Book name of a reference such as "羅馬書 1:16" → "羅馬書". */
+export const getVerseBook = (reference: string): string => {
+  const cut = reference.lastIndexOf(' ');
+  return cut === -1 ? reference : reference.slice(0, cut);
+};
+
+export interface VerseBookGroup {
+  book: string;
+  verses: { verse: Verse; index: number }[];
+}
+
+/**
+ * Groups verses by book (as named in `lang`), keeping books and verses in list order.
+ */
+export const groupVersesByBook = (verses: Verse[], lang: Language): VerseBookGroup[] => {
+  const groups: VerseBookGroup[] = [];
+  const byBook = new Map<string, VerseBookGroup>();
+  verses.forEach((verse, index) => {
+    const book = getVerseBook(getVerseText(verse, lang).reference);
+    let group = byBook.get(book);
+    if (!group) {
+      group = { book, verses: [] };
+      byBook.set(book, group);
+      groups.push(group);
+    }
+    group.verses.push({ verse, index });
+  });
+  return groups;
+};
@@ -1,12 +1,28 @@
 
 export type Point = { x: number; y: number };
 
-export type TetrominoType = 'I' | 'O' | 'T' | 'S' | 'Z' | 'J' | 'L';
+/**
+ * Catalogue ids: the seven tetrominoes keep their letters; the rest name
+ * their size, e.g. 'I5' is the five-long line and 'O3' the 3x3 square.
+ */
+export type PieceId =
+  | 'dot' | 'I2' | 'I3' | 'I' | 'I5'
+  | 'O' | 'O3' | 'V3'
+  | 'T' | 'S' | 'Z' | 'J' | 'L'
+  | 'L5' | 'P' | 'U' | 'V5' | 'X' | 'T5';
+
+/**
+ * Single-cell power-ups dealt into the tray. They leave no block behind:
+ * a bomb clears the 3x3 area around it, a sweeper its whole row and column,
+ * and a lamp lights up the next character the verse needs.
+ */
+export type PowerUp = 'bomb' | 'sweeper' | 'lamp';
 
 export interface Piece {
-  type: TetrominoType;
+  type: PieceId;
   shape: number[][];
   color: string;
+  powerUp?: PowerUp;
 }
 
 export interface CellData {
@@ -15,11 +31,213 @@ export interface CellData {
   char: string | null;
   charIndex: number | null;
   collected: boolean;
+  /** A locked block survives its first clear, which only unlocks it. */
+  locked: boolean;
 }
 
-export interface Verse {
+export interface VerseTranslation {
   text: string;
   reference: string;
+  /** Translation abbreviation, e.g. "CUV" or "KJV". */
+  version: string;
+}
+
+export interface Verse {
+  /** Canonical reference; completed verses are saved under it regardless of language. */
+  reference: string;
+  translations: Partial<Record<Language, VerseTranslation>>;
+  tags?: string[];
+}
+
+/** A player sharing the device; each keeps their own progress, settings and saved game. */
+export interface Profile {
+  id: string;
+  /** Empty for the profile created automatically, which is shown under a default name. */
+  name: string;
+  /** Avatar background. */
+  color: string;
+  createdAt: string;
+}
+
+export interface VersePack {
+  id: string;
+  name: string;
+  /** Language the pack's verses are written in. */
+  language: Language;
+  tags: string[];
+  verses: Verse[];
+  builtIn: boolean;
+}
+
+export interface VerseCompletion {
+  /** ISO timestamp of the first time the verse was completed. */
+  firstCompletedAt: string;
+  count: number;
+}
+
+export interface MemorizationRecord {
+  attempts: number;
+  lastAccuracy: number;
+  bestAccuracy: number;
+  /** Fastest fully correct recall, null until there is one. */
+  bestTimeMs: number | null;
+  lastPracticedAt: string;
+}
+
+/** Spaced-repetition state of one verse (SM-2). */
+export interface ReviewCard {
+  ease: number;
+  /** Days until the next review. */
+  interval: number;
+  /** Consecutive passing reviews. */
+  repetitions: number;
+  /** ISO timestamp when the verse is due again. */
+  due: string;
+  lastReviewed: string | null;
+}
+
+/** Completed verses keyed by their reference, e.g. "羅馬書 1:16". */
+export type VerseCollection = Record<string, VerseCompletion>;
+
+/** Everything a placement changes, captured before the move so it can be undone exactly. */
+export interface MoveSnapshot {
+  grid: CellData[][];
+  trayPieces: (Piece | null)[];
+  score: number;
+  combo: number;
+  /** Stored as a list so the snapshot survives JSON session saves. */
+  collectedIndices: number[];
+  versePage: number;
+  rngState: number;
+  pieceBag: PieceId[];
+  /** Hints taken so far this verse; hints are paid for and not refunded by undo. */
+  hintsUsed: number;
+  pendingPowerUps: PowerUp[];
+  orderStreak: number;
+  litIndex: number | null;
+  verseTally: VerseTally;
+}
+
+/** Counts gathered from the engine's events, for one game or summed over many. */
+export interface GameStats {
+  gamesPlayed: number;
+  /** Placements by piece, undone ones included; power-ups are counted apart. */
+  piecesPlaced: Partial<Record<PieceId, number>>;
+  powerUpsUsed: number;
+  /** Clears per row and per column index, top and left first. */
+  rowsCleared: number[];
+  colsCleared: number[];
+  bestCombo: number;
+  versesCompleted: number;
+  /** Moves it took to clear those verses, for the average. */
+  verseMoves: number;
+  timePlayedMs: number;
+}
+
+export type AchievementId =
+  | 'first_verse'
+  | 'verses_25'
+  | 'four_lines'
+  | 'combo_10'
+  | 'in_order'
+  | 'book_philippians'
+  | 'streak_7';
+
+/** What has to happen for an achievement to unlock. */
+export type AchievementRule =
+  /** This many lines cleared by a single placement. */
+  | { kind: 'lines'; count: number }
+  | { kind: 'combo'; count: number }
+  /** A verse finished with every token collected in reading order. */
+  | { kind: 'inOrder' }
+  /** This many different verses completed, in any pack. */
+  | { kind: 'verses'; count: number }
+  /** Every verse of a book in the classic pack completed; the book as named in its references. */
+  | { kind: 'book'; book: string }
+  | { kind: 'dailyStreak'; days: number };
+
+export interface Achievement {
+  id: AchievementId;
+  icon: string;
+  rule: AchievementRule;
+}
+
+/** Unlocked achievements and when, as ISO timestamps. */
+export type AchievementUnlocks = Partial<Record<AchievementId, string>>;
+
+/**
+ * A game in progress as written to storage: the round and the run around it,
+ * nothing about the screen. The verse is named by its reference, which stays
+ * put when a pack is reordered. Older formats are migrated on load.
+ */
+export interface SavedSession {
+  version: 4;
+  /** ISO timestamp of the save. */
+  savedAt: string;
+  packId: string;
+  verseReference: string;
+  language: Language;
+  mode: GameMode;
+  dailyDate: string | null;
+  timeLeftMs: number | null;
+  difficulty: Difficulty;
+  boardSize: number;
+  traySize: number;
+  grid: CellData[][];
+  trayPieces: (Piece | null)[];
+  score: number;
+  combo: number;
+  versePage: number;
+  collectedIndices: number[];
+  isGameOver: boolean;
+  isRoundClearing: boolean;
+  undoLimit: number | null;
+  undosUsed: number;
+  hintLimit: number;
+  hintsUsed: number;
+  pieceBag: PieceId[];
+  pendingPowerUps: PowerUp[];
+  orderStreak: number;
+  litIndex: number | null;
+  verseTally: VerseTally;
+  stats: GameStats;
+  history: MoveSnapshot[];
+  replay: Replay | null;
+  seed: number;
+  rngState: number;
+}
+
+/**
+ * One recorded input, kept as a short tuple so logs stay small:
+ * `[trayIndex, rotation, x, y]` places a piece, `['r', trayIndex]` rotates a
+ * tray piece, `['u']` undoes, `['h']` takes a hint, `['s']` reshuffles a
+ * blocked verse, `['n', verseIndex, bonus]` starts the next verse (the verse is recorded because the spaced-repetition
+ * queue picks it, and the bonus covers points earned outside the board such as
+ * memorization).
+ */
+export type ReplayAction =
+  | [number, number, number, number]
+  | ['r', number]
+  | ['u']
+  | ['h']
+  | ['s']
+  | ['n', number, number];
+
+export interface Replay {
+  version: 1;
+  seed: number;
+  packId: string;
+  language: Language;
+  verseIndex: number;
+  undoLimit: number | null;
+  /** 'normal' when missing. */
+  difficulty?: Difficulty;
+  /** 'classic' when missing. */
+  mode?: GameMode;
+  /** ISO timestamp of when the game started. */
+  recordedAt: string;
+  finalScore: number | null;
+  actions: ReplayAction[];
 }
 
 export interface ScoreEffect {
@@ -28,17 +246,80 @@ export interface ScoreEffect {
   y: number;
   text: string;
   life: number;
+  /** Text color; line points use the default sky blue. */
+  color?: string;
+}
+
+/**
+ * Where points come from: a plain placement, cleared lines, a power-up, or
+ * the verse bonuses for reading order, finished phrases and few moves.
+ */
+export type ScoreKind = 'placement' | 'lines' | 'powerUp' | 'inOrder' | 'phrase' | 'efficiency';
+
+export interface ScoreItem {
+  kind: ScoreKind;
+  points: number;
+  /** What was counted: lines, blocks, tokens or moves under par. */
+  count: number;
+}
+
+/** Points earned on the current verse by source, for the round summary. */
+export interface VerseTally {
+  moves: number;
+  points: Record<ScoreKind, number>;
+  /** What each source counted, as in `ScoreItem.count`. */
+  counts: Record<ScoreKind, number>;
+}
+
+/**
+ * How the tray draws pieces: independent picks by weight, or a shuffled bag
+ * that deals every listed piece once before it is refilled (the "7-bag" when
+ * it holds the seven tetrominoes).
+ */
+export type PieceDistribution =
+  | { kind: 'weighted'; weights: Partial<Record<PieceId, number>> }
+  | { kind: 'bag'; pieces: PieceId[] };
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+/** Everything a difficulty decides for a new game. */
+export interface DifficultyPreset {
+  /** Width and height of the square board. */
+  boardSize: number;
+  /** Pieces dealt per tray. */
+  traySize: number;
+  pieces: PieceDistribution;
+  /** Hints allowed per verse. */
+  hintLimit: number;
+  /** Applied to the points of every placement. */
+  scoreMultiplier: number;
+  /** Locked blocks dropped on the board with every new verse. */
+  lockedCells: number;
 }
 
 export type Language = 'en' | 'zh';
 
+/**
+ * Classic ends when the tray is stuck, timed when the clock runs out too,
+ * zen never: a stuck tray gets room cleared instead. Daily is a classic run
+ * on the day's verse.
+ */
+export type GameMode = 'classic' | 'timed' | 'zen' | 'daily';
+
+/** Modes picked on the menu, each with its own records. */
+export type PlayMode = Exclude<GameMode, 'daily'>;
+
 export interface GameState {
-  screen: 'menu' | 'playing';
+  screen: 'menu' | 'playing' | 'collection' | 'replays' | 'profiles' | 'stats' | 'badges';
   score: number;
   highScore: number;
   combo: number;
-  completedVerses: string[];
+  completedVerses: VerseCollection;
+  /** Verse pack the round draws from; currentVerseIndex indexes into its verses. */
+  packId: string;
   currentVerseIndex: number;
+  /** Page of the current verse on the board; verses longer than the board span several pages. */
+  versePage: number;
   grid: CellData[][];
   trayPieces: (Piece | null)[];
   activePieceIndex: number | null; 
@@ -46,5 +327,41 @@ export interface GameState {
   isGameOver: boolean;
   collectedIndices: Set<number>;
   isRoundClearing: boolean;
+  /** Some uncollected token can no longer be reached; the player may reshuffle. */
+  isVerseBlocked: boolean;
   language: Language;
+  mode: GameMode;
+  /** Time left in a timed run, null in the other modes. Only runs while a verse is being played. */
+  timeLeftMs: number | null;
+  /** Date key of the daily challenge being played, null outside daily mode. */
+  dailyDate: string | null;
+  /** Snapshots taken before each placement, newest last; cleared when the next verse starts. */
+  history: MoveSnapshot[];
+  /** Undos allowed per verse; null for unlimited, 0 to disable undo. */
+  undoLimit: number | null;
+  undosUsed: number;
+  /** Hints allowed per verse and how many have been taken on the current one. */
+  hintLimit: number;
+  hintsUsed: number;
+  /** Preset the game was started with: board and tray size, pieces, hints and scoring. */
+  difficulty: Difficulty;
+  boardSize: number;
+  traySize: number;
+  /** Pieces left in the current bag when the difficulty deals from bags. */
+  pieceBag: PieceId[];
+  /** Power-ups earned but not dealt yet; each tray refill deals one. */
+  pendingPowerUps: PowerUp[];
+  /** Moves in a row that collected the verse's next character in reading order. */
+  orderStreak: number;
+  /** Token a lamp has lit up, until it is collected. */
+  litIndex: number | null;
+  verseTally: VerseTally;
+  /** Statistics of the run so far; added to the profile's lifetime ones when it ends. */
+  stats: GameStats;
+  /** Move log of the run so far, saved as a replay when it ends. */
+  replay: Replay | null;
+  /** Seed the run was started from; together with the verse it reproduces the game. */
+  seed: number;
+  /** PRNG state after the last random draw, so a resumed session continues the same sequence. */
+  rngState: number;
 }